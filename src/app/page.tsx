@@ -1,6 +1,6 @@
 'use client';
 
-import { useRef } from 'react';
+import { useMemo, useRef } from 'react';
 import { MainLayout } from '@/components/main-layout';
 import { UploadCard } from '@/components/upload-card';
 import { ExtractionSettingsCard } from '@/components/extraction-settings-card';
@@ -9,11 +9,15 @@ import { FrameAnalysisCard } from '@/components/frame-analysis-card';
 import { ClearCacheDialog } from '@/components/clear-cache-dialog';
 import { DownloadOptionsDialog } from '@/components/download-options-dialog';
 import { useFrameExtraction } from '@/hooks/use-frame-extraction';
-import { getSelectedFrames, getSelectedFramesCount } from '@/utils/frame-selection';
+import { getSelectedFrames, getSelectedFramesCount, computeQualityScores } from '@/utils/frame-selection';
 
 export default function ExtractPage() {
-  const { state, setState, extractionMethod, handlers } = useFrameExtraction();
+  const { state, setState, extractionMethod, fallbackReason, decoderSupport, performanceMetrics, handlers } = useFrameExtraction();
   const videoRef = useRef<HTMLVideoElement | null>(null) as React.RefObject<HTMLVideoElement>;
+  const qualityScores = useMemo(
+    () => computeQualityScores(state.frames, state.qualityWeights),
+    [state.frames, state.qualityWeights]
+  );
 
   return (
     <MainLayout
@@ -33,6 +37,9 @@ export default function ExtractPage() {
           onVideoChangeAction={handlers.handleVideoChange}
           onVideoReplaceAction={handlers.handleVideoReplace}
           onImageDirectoryChangeAction={handlers.handleImageDirectoryChange}
+          importedManifest={state.importedManifest}
+          onManifestImportAction={handlers.handleManifestImport}
+          onManifestDiscardAction={() => setState(prev => ({ ...prev, importedManifest: null }))}
           videoRef={videoRef}
           isImageMode={state.isImageMode}
           imageCount={state.frames.length}
@@ -42,22 +49,45 @@ export default function ExtractPage() {
         {/* Extraction Settings Card */}
         {state.videoMetadata && !state.isImageMode && (
           <ExtractionSettingsCard
+            videoFile={state.videoFile}
             videoMetadata={state.videoMetadata}
             fps={state.fps}
             format={state.format}
+            quality={state.formatQuality[state.format]}
+            outputTransform={state.outputTransform}
             prefix={state.prefix}
             useOriginalFrameRate={state.useOriginalFrameRate}
+            extractionMode={state.extractionMode}
+            sceneThreshold={state.sceneThreshold}
+            frameStep={state.frameStep}
+            timestampList={state.timestampList}
+            timestampUnit={state.timestampUnit}
+            sharpnessMetric={state.sharpnessMetric}
             processing={state.processing}
             extractionProgress={state.extractionProgress}
             sharpnessProgress={state.sharpnessProgress}
-            timeRange={state.timeRange}
+            timeRanges={state.timeRanges}
             videoRef={videoRef}
             extractionMethod={extractionMethod}
+            fallbackReason={fallbackReason}
+            decoderSupport={decoderSupport}
+            performanceMetrics={performanceMetrics}
             onFpsChangeAction={(fps) => setState(prev => ({ ...prev, fps }))}
             onFormatChangeAction={(format) => setState(prev => ({ ...prev, format }))}
+            onQualityChangeAction={(quality) => setState(prev => ({
+              ...prev,
+              formatQuality: { ...prev.formatQuality, [prev.format]: quality }
+            }))}
+            onOutputTransformChangeAction={(outputTransform) => setState(prev => ({ ...prev, outputTransform }))}
             onPrefixChangeAction={(prefix) => setState(prev => ({ ...prev, prefix }))}
             onUseOriginalFrameRateChangeAction={(value) => setState(prev => ({ ...prev, useOriginalFrameRate: value }))}
-            onTimeRangeChangeAction={(range) => setState(prev => ({ ...prev, timeRange: range }))}
+            onExtractionModeChangeAction={(mode) => setState(prev => ({ ...prev, extractionMode: mode }))}
+            onSceneThresholdChangeAction={(threshold) => setState(prev => ({ ...prev, sceneThreshold: threshold }))}
+            onFrameStepChangeAction={(frameStep) => setState(prev => ({ ...prev, frameStep }))}
+            onTimestampListChangeAction={(timestampList) => setState(prev => ({ ...prev, timestampList }))}
+            onTimestampUnitChangeAction={(timestampUnit) => setState(prev => ({ ...prev, timestampUnit }))}
+            onSharpnessMetricChangeAction={(metric) => setState(prev => ({ ...prev, sharpnessMetric: metric }))}
+            onTimeRangesChangeAction={(timeRanges) => setState(prev => ({ ...prev, timeRanges }))}
             onExtractAction={handlers.handleExtractFrames}
             onCancelAction={handlers.handleCancel}
           />
@@ -76,13 +106,28 @@ export default function ExtractPage() {
         batchBuffer={state.batchBuffer}
         bestNCount={state.bestNCount}
         bestNMinGap={state.bestNMinGap}
+        motionBaseline={state.motionBaseline}
+        overlapRange={state.overlapRange}
         percentageThreshold={state.percentageThreshold}
+        excludeMotionBlur={state.excludeMotionBlur}
+        maxMotionBlur={state.maxMotionBlur}
+        suppressDuplicates={state.suppressDuplicates}
+        qualityWeights={state.qualityWeights}
+        qualityScores={qualityScores}
+        exportPreset={state.exportPreset}
         onSelectionModeChangeAction={handlers.handleSelectionModeChange}
         onBatchSizeChangeAction={handlers.handleBatchSizeChange}
         onBatchBufferChangeAction={handlers.handleBatchBufferChange}
         onBestNCountChangeAction={(count) => setState(prev => ({ ...prev, bestNCount: count }))}
         onBestNMinGapChangeAction={(gap) => setState(prev => ({ ...prev, bestNMinGap: gap }))}
+        onMotionBaselineChangeAction={(baseline) => setState(prev => ({ ...prev, motionBaseline: baseline }))}
+        onOverlapRangeChangeAction={(range) => setState(prev => ({ ...prev, overlapRange: range }))}
         onPercentageThresholdChangeAction={(threshold) => setState(prev => ({ ...prev, percentageThreshold: threshold }))}
+        onExcludeMotionBlurChangeAction={(value) => setState(prev => ({ ...prev, excludeMotionBlur: value }))}
+        onMaxMotionBlurChangeAction={(value) => setState(prev => ({ ...prev, maxMotionBlur: value }))}
+        onSuppressDuplicatesChangeAction={(value) => setState(prev => ({ ...prev, suppressDuplicates: value }))}
+        onQualityWeightsChangeAction={(weights) => setState(prev => ({ ...prev, qualityWeights: weights }))}
+        onExportPresetChangeAction={(preset) => setState(prev => ({ ...prev, exportPreset: preset }))}
         onToggleFramesAction={() => setState(prev => ({ ...prev, showFrames: !prev.showFrames }))}
         onToggleFrameSelectionAction={handlers.handleToggleFrameSelection}
       />
@@ -6,9 +6,10 @@ interface ChartTooltipProps {
   frame: FrameData | null;
   position: { x: number; y: number } | null;
   getThumbnailUrl: (id: string) => string | undefined;
+  qualityScore?: number;
 }
 
-export function ChartTooltip({ frame, position, getThumbnailUrl }: ChartTooltipProps) {
+export function ChartTooltip({ frame, position, getThumbnailUrl, qualityScore }: ChartTooltipProps) {
   const tooltipRef = useRef<HTMLDivElement>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [loadError, setLoadError] = useState(false);
@@ -101,6 +102,31 @@ export function ChartTooltip({ frame, position, getThumbnailUrl }: ChartTooltipP
           <p className="text-sm text-muted-foreground">
             Sharpness: {frame.sharpnessScore?.toFixed(1)}
           </p>
+          {frame.motionMagnitude !== undefined && (
+            <p className="text-xs text-muted-foreground">
+              Motion: {frame.motionMagnitude.toFixed(1)}% of width
+            </p>
+          )}
+          {frame.duplicateGroup !== undefined && (
+            <p className="text-xs text-amber-600">
+              Near-duplicate (group {frame.duplicateGroup + 1})
+            </p>
+          )}
+          {qualityScore !== undefined && (
+            <p className="text-sm text-muted-foreground">
+              Quality: {qualityScore.toFixed(1)}
+            </p>
+          )}
+          {frame.meanLuminance !== undefined && (
+            <p className="text-xs text-muted-foreground">
+              Luminance: {frame.meanLuminance.toFixed(0)} · Noise: {frame.noiseLevel?.toFixed(1)}
+            </p>
+          )}
+          {frame.highlightClipping !== undefined && (
+            <p className="text-xs text-muted-foreground">
+              Clipped: {frame.highlightClipping.toFixed(1)}% highlights, {frame.shadowClipping?.toFixed(1)}% shadows
+            </p>
+          )}
         </div>
       </div>
     );
@@ -0,0 +1,165 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { type CropRect } from '@/lib/outputTransform';
+import { useEffect, useRef, useState } from 'react';
+
+interface CropDialogProps {
+  crop: CropRect | null;
+  videoWidth: number;
+  videoHeight: number;
+  previewTime: number;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  onCropChangeAction: (crop: CropRect | null) => void;
+  disabled?: boolean;
+}
+
+// Drags smaller than this (as a fraction of the frame) are treated as clicks, not crops
+const MIN_CROP_SIZE = 0.02;
+
+export function CropDialog({
+  crop,
+  videoWidth,
+  videoHeight,
+  previewTime,
+  videoRef,
+  onCropChangeAction,
+  disabled = false,
+}: CropDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [localCrop, setLocalCrop] = useState<CropRect | null>(crop);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setLocalCrop(crop);
+    }
+  }, [open, crop]);
+
+  useEffect(() => {
+    if (open && previewRef.current) {
+      previewRef.current.currentTime = previewTime;
+    }
+  }, [open, previewTime]);
+
+  const toFramePoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = toFramePoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+
+    const point = toFramePoint(e);
+    setLocalCrop({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    setLocalCrop(prev =>
+      prev && (prev.width < MIN_CROP_SIZE || prev.height < MIN_CROP_SIZE) ? null : prev
+    );
+  };
+
+  const handleSave = () => {
+    onCropChangeAction(localCrop);
+    setOpen(false);
+  };
+
+  const describeCrop = (rect: CropRect | null) => rect
+    ? `${Math.round(rect.width * videoWidth)}×${Math.round(rect.height * videoHeight)} px`
+    : 'Full frame';
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full" disabled={disabled}>
+          Crop: {describeCrop(crop)}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Crop Output</DialogTitle>
+          <DialogDescription>
+            Drag over the preview to choose the region to keep, e.g. to cut out a watermark or the drone&apos;s legs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          className="relative w-full rounded-lg overflow-hidden bg-gray-100 select-none touch-none"
+          style={{ aspectRatio: `${videoWidth} / ${videoHeight}` }}
+        >
+          {videoRef.current && (
+            <video
+              ref={previewRef}
+              src={videoRef.current.src}
+              className="absolute inset-0 w-full h-full"
+              controls={false}
+              muted
+            />
+          )}
+          <div
+            ref={overlayRef}
+            className="absolute inset-0 cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            {localCrop && (
+              <div
+                className="absolute border-2 border-white"
+                style={{
+                  left: `${localCrop.x * 100}%`,
+                  top: `${localCrop.y * 100}%`,
+                  width: `${localCrop.width * 100}%`,
+                  height: `${localCrop.height * 100}%`,
+                  // Dims everything outside the crop
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+                }}
+              />
+            )}
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">{describeCrop(localCrop)}</p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setLocalCrop(null)} disabled={!localCrop}>
+            Reset
+          </Button>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>
+            Save Crop
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
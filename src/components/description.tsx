@@ -24,7 +24,7 @@ export function Description() {
               <span className="font-medium text-[#111214]">Video file size limit</span>
             </div>
             <div className="flex-1">
-              <p>~1.9GB - this varies due to browser memory limitations</p>
+              <p>No fixed limit - every decoder reads the video in place rather than loading it into memory, so multi-gigabyte files work. Extracted frames are kept in browser storage, which is bounded by free disk space</p>
             </div>
           </li>
           <li className="text-[#4B5563] flex items-start group">
@@ -32,7 +32,7 @@ export function Description() {
               <span className="font-medium text-[#111214]">Supported codecs</span>
             </div>
             <div className="flex-1">
-              <p className="leading-relaxed">H264, HEVC, VP8, VP9, AV1</p>
+              <p className="leading-relaxed">H264, HEVC, VP8, VP9, AV1 decode natively; other codecs (ProRes, DNxHD, MJPEG) fall back to slower FFmpeg decoding</p>
             </div>
           </li>
         </ul>
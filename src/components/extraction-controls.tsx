@@ -4,32 +4,83 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TimestampListInput } from '@/components/timestamp-list-input';
+import { type ExtractionMode } from '@/types/frame-extraction';
+import { SHARPNESS_METRICS, type SharpnessMetricId } from '@/lib/sharpnessMetrics';
+import { IMAGE_FORMATS, getSupportedImageFormats, type ImageFormat } from '@/lib/imageUtils';
+import { type TimestampUnit } from '@/lib/timestampList';
+import { useEffect, useState } from 'react';
 
 interface ExtractionControlsProps {
   fps: number;
-  format: 'jpeg' | 'png';
+  format: ImageFormat;
+  quality: number;
+  // Encoded size of a sample frame at the current settings (undefined while measuring, null if
+  // the sample can't be decoded), and how many frames the settings yield
+  estimatedFrameSize: number | null | undefined;
+  estimatedFrameCount: number | null;
   prefix: string;
   useOriginalFrameRate: boolean;
+  extractionMode: ExtractionMode;
+  sceneThreshold: number;
+  frameStep: number;
+  timestampList: string;
+  timestampUnit: TimestampUnit;
+  sharpnessMetric: SharpnessMetricId;
   onFpsChangeAction: (fps: number) => void;
-  onFormatChangeAction: (format: 'jpeg' | 'png') => void;
+  onFormatChangeAction: (format: ImageFormat) => void;
+  onQualityChangeAction: (quality: number) => void;
   onPrefixChangeAction: (prefix: string) => void;
   onUseOriginalFrameRateChangeAction: (value: boolean) => void;
-  videoMetadata: { fps: number } | null;
+  onExtractionModeChangeAction: (mode: ExtractionMode) => void;
+  onSceneThresholdChangeAction: (threshold: number) => void;
+  onFrameStepChangeAction: (step: number) => void;
+  onTimestampListChangeAction: (list: string) => void;
+  onTimestampUnitChangeAction: (unit: TimestampUnit) => void;
+  onSharpnessMetricChangeAction: (metric: SharpnessMetricId) => void;
+  videoMetadata: { fps: number; duration: number } | null;
+  // False when WebCodecs can't decode the video; every mode but interval needs it
+  webCodecsSupported: boolean;
   processing: boolean;
 }
 
 export function ExtractionControls({
   fps,
   format,
+  quality,
+  estimatedFrameSize,
+  estimatedFrameCount,
   prefix,
   useOriginalFrameRate,
+  extractionMode,
+  sceneThreshold,
+  frameStep,
+  timestampList,
+  timestampUnit,
+  sharpnessMetric,
   onFpsChangeAction,
   onFormatChangeAction,
+  onQualityChangeAction,
   onPrefixChangeAction,
   onUseOriginalFrameRateChangeAction,
+  onExtractionModeChangeAction,
+  onSceneThresholdChangeAction,
+  onFrameStepChangeAction,
+  onTimestampListChangeAction,
+  onTimestampUnitChangeAction,
+  onSharpnessMetricChangeAction,
   videoMetadata,
+  webCodecsSupported,
   processing
 }: ExtractionControlsProps) {
+  const [supportedFormats, setSupportedFormats] = useState<ImageFormat[]>(['jpeg', 'png']);
+
+  useEffect(() => {
+    getSupportedImageFormats().then(setSupportedFormats);
+  }, []);
+
   return (
     <div className="space-y-6">
       <div className="space-y-4">
@@ -49,32 +100,154 @@ export function ExtractionControls({
         </div>
 
         <div className="space-y-3">
-          <label className="text-sm font-medium">Frame Rate</label>
-          <div className="flex items-center gap-3">
+          <label className="text-sm font-medium">Extraction Mode</label>
+          <div className="grid grid-cols-3 gap-2">
+            <Button
+              variant={extractionMode === 'interval' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onExtractionModeChangeAction('interval')}
+              disabled={processing}
+            >
+              Fixed Interval
+            </Button>
+            <Button
+              variant={extractionMode === 'scene-change' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onExtractionModeChangeAction('scene-change')}
+              disabled={processing || !webCodecsSupported}
+            >
+              Scene Changes
+            </Button>
+            <Button
+              variant={extractionMode === 'keyframes' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onExtractionModeChangeAction('keyframes')}
+              disabled={processing || !webCodecsSupported}
+            >
+              Keyframes Only
+            </Button>
+            <Button
+              variant={extractionMode === 'every-frame' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onExtractionModeChangeAction('every-frame')}
+              disabled={processing || !webCodecsSupported}
+            >
+              Every Frame
+            </Button>
+            <Button
+              variant={extractionMode === 'timestamps' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onExtractionModeChangeAction('timestamps')}
+              disabled={processing || !webCodecsSupported}
+            >
+              Timestamp List
+            </Button>
+          </div>
+          {!webCodecsSupported && (
+            <p className="text-xs text-muted-foreground">
+              WebCodecs can&apos;t decode this video, so only fixed interval extraction is available
+            </p>
+          )}
+        </div>
+
+        {extractionMode === 'scene-change' && (
+          <div className="space-y-3">
+            <label className="text-sm font-medium">Scene Change Threshold</label>
+            <div className="flex items-center gap-4">
+              <div className="flex-1">
+                <Slider
+                  value={[sceneThreshold]}
+                  onValueChange={(values) => {
+                    if (Array.isArray(values) && typeof values[0] === 'number') {
+                      onSceneThresholdChangeAction(values[0]);
+                    }
+                  }}
+                  min={1}
+                  max={50}
+                  step={1}
+                  disabled={processing}
+                  aria-label="Scene change threshold"
+                />
+              </div>
+              <div className="w-12 text-sm font-medium">
+                {sceneThreshold}%
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              A frame is kept when it differs from the previous frame by at least this much. Lower values detect subtler cuts.
+            </p>
+          </div>
+        )}
+
+        {extractionMode === 'keyframes' && (
+          <p className="text-xs text-muted-foreground">
+            Decodes only the video&apos;s keyframes and skips every frame in between. Much faster on long recordings; spacing follows the encoder&apos;s keyframe interval.
+          </p>
+        )}
+
+        {extractionMode === 'every-frame' && (
+          <div className="space-y-3">
+            <label className="text-sm font-medium">Keep Every Nth Frame</label>
             <div className="flex items-center gap-2">
               <Input
                 type="number"
-                value={fps}
-                onChange={(e) => onFpsChangeAction(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
-                min={0.1}
-                step={0.1}
+                value={frameStep}
+                onChange={(e) => onFrameStepChangeAction(Math.max(1, parseInt(e.target.value) || 1))}
+                min={1}
+                step={1}
                 className="w-24"
                 disabled={processing}
               />
-              <span className="text-sm text-muted-foreground">fps</span>
+              <span className="text-sm text-muted-foreground">
+                {frameStep === 1 ? 'every decoded frame' : `1 of every ${frameStep} decoded frames`}
+              </span>
             </div>
-            {videoMetadata && (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => onFpsChangeAction(videoMetadata.fps)}
-                disabled={processing}
-              >
-                Use Original ({videoMetadata.fps} fps)
-              </Button>
-            )}
+            <p className="text-xs text-muted-foreground">
+              Walks the frames actually stored in the video and records each one&apos;s real timestamp. Use this for variable-frame-rate phone footage, where sampling at a fixed fps repeats some frames and skips others.
+            </p>
           </div>
-        </div>
+        )}
+
+        {extractionMode === 'timestamps' && (
+          <TimestampListInput
+            value={timestampList}
+            unit={timestampUnit}
+            videoMetadata={videoMetadata}
+            onValueChangeAction={onTimestampListChangeAction}
+            onUnitChangeAction={onTimestampUnitChangeAction}
+            processing={processing}
+          />
+        )}
+
+        {extractionMode === 'interval' && (
+          <div className="space-y-3">
+            <label className="text-sm font-medium">Frame Rate</label>
+            <div className="flex items-center gap-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  value={fps}
+                  onChange={(e) => onFpsChangeAction(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+                  min={0.1}
+                  step={0.1}
+                  className="w-24"
+                  disabled={processing}
+                />
+                <span className="text-sm text-muted-foreground">fps</span>
+              </div>
+              {videoMetadata && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onFpsChangeAction(videoMetadata.fps)}
+                  disabled={processing}
+                >
+                  Use Original ({videoMetadata.fps} fps)
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
 
         <div className="space-y-3">
           <div className="flex items-start gap-2">
@@ -107,26 +280,81 @@ export function ExtractionControls({
       <div className="space-y-3">
         <label className="text-sm font-medium">Format</label>
         <div className="flex gap-2">
-          <Button
-            variant={format === 'jpeg' ? 'default' : 'outline'}
-            size="sm"
-            onClick={() => onFormatChangeAction('jpeg')}
-            disabled={processing}
-            className="flex-1"
-          >
-            JPEG
-          </Button>
-          <Button
-            variant={format === 'png' ? 'default' : 'outline'}
-            size="sm"
-            onClick={() => onFormatChangeAction('png')}
-            disabled={processing}
-            className="flex-1"
-          >
-            PNG
-          </Button>
+          {(Object.keys(IMAGE_FORMATS) as ImageFormat[]).map((id) => (
+            <Button
+              key={id}
+              variant={format === id ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onFormatChangeAction(id)}
+              disabled={processing || !supportedFormats.includes(id)}
+              title={supportedFormats.includes(id) ? undefined : `This browser cannot encode ${IMAGE_FORMATS[id].label}`}
+              className="flex-1"
+            >
+              {IMAGE_FORMATS[id].label}
+            </Button>
+          ))}
         </div>
+        {IMAGE_FORMATS[format].lossy && (
+          <div className="flex items-center gap-4">
+            <div className="flex-1">
+              <Slider
+                value={[Math.round(quality * 100)]}
+                onValueChange={(values) => {
+                  if (Array.isArray(values) && typeof values[0] === 'number') {
+                    onQualityChangeAction(values[0] / 100);
+                  }
+                }}
+                min={10}
+                max={100}
+                step={1}
+                disabled={processing}
+                aria-label={`${IMAGE_FORMATS[format].label} quality`}
+              />
+            </div>
+            <div className="w-12 text-sm font-medium">
+              {Math.round(quality * 100)}%
+            </div>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {estimatedFrameSize === undefined
+            ? 'Estimating output size...'
+            : estimatedFrameSize === null
+              ? 'Output size estimate unavailable for this video'
+              : estimatedFrameCount
+                ? `About ${formatBytes(estimatedFrameSize)} per frame, ${formatBytes(estimatedFrameSize * estimatedFrameCount)} for ${estimatedFrameCount.toLocaleString()} frames`
+                : `About ${formatBytes(estimatedFrameSize)} per frame`}
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <label className="text-sm font-medium">Sharpness Metric</label>
+        <Select
+          value={sharpnessMetric}
+          onValueChange={(value) => onSharpnessMetricChangeAction(value as SharpnessMetricId)}
+          disabled={processing}
+        >
+          <SelectTrigger className="w-full" aria-label="Sharpness metric">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(SHARPNESS_METRICS).map((metric) => (
+              <SelectItem key={metric.id} value={metric.id}>
+                {metric.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {SHARPNESS_METRICS[sharpnessMetric].description}
+        </p>
       </div>
     </div>
   );
 }
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
@@ -1,29 +1,40 @@
 'use client';
 
 import { Card, CardContent } from '@/components/ui/card';
-import { AlertCircle, Zap, Monitor } from 'lucide-react';
+import { AlertCircle, Zap, Monitor, KeyRound, Cpu } from 'lucide-react';
 import { getBrowserSupport } from '@/lib/browserSupport';
-// import { detectVideoCodec, type CodecInfo } from '@/lib/codecDetection';
+import { type ExtractionMethod } from '@/lib/frameExtractionService';
+import { type DecoderSupport } from '@/lib/codecDetection';
 
 interface ExtractionMethodIndicatorProps {
-  currentMethod?: 'MediaBunny' | 'Canvas' | null;
+  currentMethod?: ExtractionMethod | null;
   fallbackReason?: string | null;
+  // What WebCodecs said about the video's decoder config
+  decoderSupport?: DecoderSupport | null;
   performanceMetrics?: {
     duration: number;
     framesPerSecond: number;
   } | null;
   processing?: boolean;
-  videoFile?: File | null;
 }
 
 export function ExtractionMethodIndicator({ 
   currentMethod,
   fallbackReason,
+  decoderSupport,
   performanceMetrics,
   processing
-  // videoFile - reserved for future codec detection
 }: ExtractionMethodIndicatorProps) {
   const browserSupport = getBrowserSupport();
+  const webCodecsAvailable = browserSupport.mediaBunny && decoderSupport?.supported !== false;
+
+  const decoderDetails = decoderSupport && (
+    <div className="mt-2 mb-1 text-xs text-muted-foreground">
+      {decoderSupport.supported
+        ? `${decoderSupport.description} • ${decoderSupport.acceleration} decoding`
+        : decoderSupport.reason}
+    </div>
+  );
 
   if (processing && !currentMethod) {
     return (
@@ -40,7 +51,10 @@ export function ExtractionMethodIndicator({
 
   if (currentMethod) {
     const isMediaBunny = currentMethod === 'MediaBunny';
-    const cardClass = isMediaBunny 
+    const isKeyframes = currentMethod === 'Keyframes';
+    const isFfmpeg = currentMethod === 'FFmpeg';
+    const isFallback = currentMethod === 'Canvas' || isFfmpeg;
+    const cardClass = isMediaBunny || isKeyframes
       ? "border-green-200 bg-green-50" 
       : "border-orange-200 bg-orange-50";
     
@@ -49,14 +63,22 @@ export function ExtractionMethodIndicator({
         <CardContent className="py-3">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
-              {isMediaBunny ? (
+              {isKeyframes ? (
+                <KeyRound className="h-4 w-4 text-green-600" />
+              ) : isMediaBunny ? (
                 <Zap className="h-4 w-4 text-green-600" />
+              ) : isFfmpeg ? (
+                <Cpu className="h-4 w-4 text-orange-600" />
               ) : (
                 <Monitor className="h-4 w-4 text-orange-600" />
               )}
               <div className="flex flex-col">
                 <span className="text-sm font-medium">
-                  Using {currentMethod} extraction
+                  {isKeyframes
+                    ? 'Using keyframe-only extraction'
+                    : isFfmpeg
+                      ? 'Using FFmpeg software decoding'
+                      : `Using ${currentMethod} extraction`}
                 </span>
                 {performanceMetrics && (
                   <div className="text-xs text-muted-foreground mt-1">
@@ -68,21 +90,21 @@ export function ExtractionMethodIndicator({
             </div>
           </div>
           
-          {!isMediaBunny && browserSupport.mediaBunny && fallbackReason && (
+          {isFallback && (browserSupport.mediaBunny || isFfmpeg) && fallbackReason ? (
             <div className="mt-2 mb-1 text-xs text-muted-foreground">
-              {fallbackReason} by WebCodecs
+              Fell back from {isFfmpeg ? 'browser decoding' : 'WebCodecs'}: {fallbackReason}
             </div>
-          )}
+          ) : !isFallback && decoderDetails}
         </CardContent>
       </Card>
     );
   }
 
   return (
-    <Card className={browserSupport.mediaBunny ? "border-blue-200 bg-blue-50" : "border-gray-200"}>
+    <Card className={webCodecsAvailable ? "border-blue-200 bg-blue-50" : "border-gray-200"}>
       <CardContent className="py-3">
         <div className="flex items-center gap-2">
-          {browserSupport.mediaBunny ? (
+          {webCodecsAvailable ? (
             <>
               <Zap className="h-4 w-4 text-blue-600" />
               <span className="text-sm font-medium text-blue-900">
@@ -98,6 +120,7 @@ export function ExtractionMethodIndicator({
             </>
           )}
         </div>
+        {decoderDetails}
       </CardContent>
     </Card>
   );
@@ -5,53 +5,151 @@ import { Card } from '@/components/ui/card';
 import { ExtractionControls } from '@/components/extraction-controls';
 import { ProgressIndicator } from '@/components/progress-indicator';
 import { TimeRangeDialog } from '@/components/time-range-dialog';
+import { OutputTransformControls } from '@/components/output-transform-controls';
+import { ExtractionMethodIndicator } from '@/components/extraction-method-indicator';
+import { type DecoderSupport } from '@/lib/codecDetection';
+import { type ExtractionMethod } from '@/lib/frameExtractionService';
 import { type VideoMetadata } from '@/lib/videoUtils';
-import { type ProgressInfo } from '@/types/frame-extraction';
+import { type ExtractionMode, type ProgressInfo, type TimeRange } from '@/types/frame-extraction';
+import { type SharpnessMetricId } from '@/lib/sharpnessMetrics';
+import { type ImageFormat } from '@/lib/imageUtils';
+import { estimateFrameSize } from '@/lib/outputSizeEstimate';
+import { type OutputTransform } from '@/lib/outputTransform';
+import { parseTimestampList, toListedFrames, type TimestampUnit } from '@/lib/timestampList';
 import * as React from 'react';
 
 interface ExtractionSettingsCardProps {
+  videoFile: File | null;
   videoMetadata: VideoMetadata | null;
   fps: number;
-  format: 'jpeg' | 'png';
+  format: ImageFormat;
+  quality: number;
+  outputTransform: OutputTransform;
   prefix: string;
   useOriginalFrameRate: boolean;
+  extractionMode: ExtractionMode;
+  sceneThreshold: number;
+  frameStep: number;
+  timestampList: string;
+  timestampUnit: TimestampUnit;
+  sharpnessMetric: SharpnessMetricId;
   processing: boolean;
   extractionProgress: ProgressInfo;
   sharpnessProgress: ProgressInfo;
-  timeRange: [number, number];
+  timeRanges: TimeRange[];
   videoRef: React.RefObject<HTMLVideoElement | null>;
-  extractionMethod?: 'MediaBunny' | 'Canvas' | null;
+  extractionMethod?: ExtractionMethod | null;
+  fallbackReason?: string | null;
+  decoderSupport?: DecoderSupport | null;
+  performanceMetrics?: {
+    duration: number;
+    framesPerSecond: number;
+  } | null;
   onFpsChangeAction: (fps: number) => void;
-  onFormatChangeAction: (format: 'jpeg' | 'png') => void;
+  onFormatChangeAction: (format: ImageFormat) => void;
+  onQualityChangeAction: (quality: number) => void;
+  onOutputTransformChangeAction: (transform: OutputTransform) => void;
   onPrefixChangeAction: (prefix: string) => void;
   onUseOriginalFrameRateChangeAction: (value: boolean) => void;
-  onTimeRangeChangeAction: (range: [number, number]) => void;
+  onExtractionModeChangeAction: (mode: ExtractionMode) => void;
+  onSceneThresholdChangeAction: (threshold: number) => void;
+  onFrameStepChangeAction: (step: number) => void;
+  onTimestampListChangeAction: (list: string) => void;
+  onTimestampUnitChangeAction: (unit: TimestampUnit) => void;
+  onSharpnessMetricChangeAction: (metric: SharpnessMetricId) => void;
+  onTimeRangesChangeAction: (ranges: TimeRange[]) => void;
   onExtractAction: () => void;
   onCancelAction: () => void;
 }
 
+function countListedFrames(list: string, unit: TimestampUnit, metadata: VideoMetadata): number | null {
+  try {
+    return toListedFrames(parseTimestampList(list), unit, metadata.duration).values.length;
+  } catch {
+    return null;
+  }
+}
+
 export function ExtractionSettingsCard({
+  videoFile,
   videoMetadata,
   fps,
   format,
+  quality,
+  outputTransform,
   prefix,
   useOriginalFrameRate,
+  extractionMode,
+  sceneThreshold,
+  frameStep,
+  timestampList,
+  timestampUnit,
+  sharpnessMetric,
   processing,
   extractionProgress,
   sharpnessProgress,
-  timeRange,
+  timeRanges,
   videoRef,
   extractionMethod,
+  fallbackReason,
+  decoderSupport,
+  performanceMetrics,
   onFpsChangeAction,
   onFormatChangeAction,
+  onQualityChangeAction,
+  onOutputTransformChangeAction,
   onPrefixChangeAction,
   onUseOriginalFrameRateChangeAction,
-  onTimeRangeChangeAction,
+  onExtractionModeChangeAction,
+  onSceneThresholdChangeAction,
+  onFrameStepChangeAction,
+  onTimestampListChangeAction,
+  onTimestampUnitChangeAction,
+  onSharpnessMetricChangeAction,
+  onTimeRangesChangeAction,
   onExtractAction,
   onCancelAction,
 }: ExtractionSettingsCardProps) {
+  const [estimatedFrameSize, setEstimatedFrameSize] = React.useState<number | null | undefined>(undefined);
+  const sampleTime = videoMetadata ? videoMetadata.duration / 2 : 0;
+
+  // Re-encode a sample frame whenever the output settings change; debounced for slider drags
+  React.useEffect(() => {
+    // Drop the estimate for the previous settings so it isn't shown next to the new ones
+    setEstimatedFrameSize(undefined);
+    if (!videoFile) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      estimateFrameSize(videoFile, sampleTime, format, quality, outputTransform).then((size) => {
+        if (!cancelled) setEstimatedFrameSize(size);
+      }).catch(() => {
+        if (!cancelled) setEstimatedFrameSize(null);
+      });
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [videoFile, sampleTime, format, quality, outputTransform]);
+
   if (!videoMetadata) return null;
 
+  // Fixed intervals and explicit lists have a frame count known up front; every-frame is
+  // estimated from the average frame rate. The original frame rate option only renames frames,
+  // sampling stays at the chosen fps.
+  const rangeFrameCount = (rangeFps: (range: TimeRange) => number) => timeRanges.reduce(
+    (sum, range) => sum + Math.max(0, Math.floor((range.end - range.start) * rangeFps(range))), 0
+  );
+  const estimatedFrameCount = extractionMode === 'interval'
+    ? rangeFrameCount(range => range.fps ?? fps)
+    : extractionMode === 'every-frame'
+      ? Math.ceil(rangeFrameCount(() => videoMetadata.fps) / frameStep)
+      : extractionMode === 'timestamps'
+        ? countListedFrames(timestampList, timestampUnit, videoMetadata)
+        : null;
+
   return (
     <Card className="rounded-[14px] bg-white">
       <div className="p-6 space-y-6">
@@ -64,29 +162,67 @@ export function ExtractionSettingsCard({
               <ExtractionControls
                 fps={fps}
                 format={format}
+                quality={quality}
+                estimatedFrameSize={estimatedFrameSize}
+                estimatedFrameCount={estimatedFrameCount}
                 prefix={prefix}
                 useOriginalFrameRate={useOriginalFrameRate}
+                extractionMode={extractionMode}
+                sceneThreshold={sceneThreshold}
+                frameStep={frameStep}
+                timestampList={timestampList}
+                timestampUnit={timestampUnit}
+                sharpnessMetric={sharpnessMetric}
                 onFpsChangeAction={onFpsChangeAction}
                 onFormatChangeAction={onFormatChangeAction}
+                onQualityChangeAction={onQualityChangeAction}
                 onPrefixChangeAction={onPrefixChangeAction}
                 onUseOriginalFrameRateChangeAction={onUseOriginalFrameRateChangeAction}
+                onExtractionModeChangeAction={onExtractionModeChangeAction}
+                onSceneThresholdChangeAction={onSceneThresholdChangeAction}
+                onFrameStepChangeAction={onFrameStepChangeAction}
+                onTimestampListChangeAction={onTimestampListChangeAction}
+                onTimestampUnitChangeAction={onTimestampUnitChangeAction}
+                onSharpnessMetricChangeAction={onSharpnessMetricChangeAction}
                 videoMetadata={videoMetadata}
+                webCodecsSupported={decoderSupport?.supported !== false}
                 processing={processing}
               />
-              <div className="space-y-3">
-                <label className="text-sm font-medium">Time Range</label>
-                <TimeRangeDialog
-                  duration={videoMetadata.duration}
-                  timeRange={timeRange}
-                  videoRef={videoRef}
-                  onTimeRangeChangeAction={onTimeRangeChangeAction}
-                />
-              </div>
+              <OutputTransformControls
+                transform={outputTransform}
+                videoWidth={videoMetadata.width}
+                videoHeight={videoMetadata.height}
+                previewTime={timeRanges[0]?.start ?? 0}
+                videoRef={videoRef}
+                onTransformChangeAction={onOutputTransformChangeAction}
+                processing={processing}
+              />
+              {/* A timestamp list names its frames directly, so time ranges don't apply */}
+              {extractionMode !== 'timestamps' && (
+                <div className="space-y-3">
+                  <label className="text-sm font-medium">Time Range</label>
+                  <TimeRangeDialog
+                    duration={videoMetadata.duration}
+                    timeRanges={timeRanges}
+                    fps={fps}
+                    videoRef={videoRef}
+                    onTimeRangesChangeAction={onTimeRangesChangeAction}
+                  />
+                </div>
+              )}
               <div className="pt-2">
                 <Button onClick={onExtractAction} className="w-full text-base py-6" size="lg">
                   Extract Frames
                 </Button>
               </div>
+              {(extractionMethod || decoderSupport) && (
+                <ExtractionMethodIndicator
+                  currentMethod={extractionMethod}
+                  fallbackReason={fallbackReason}
+                  decoderSupport={decoderSupport}
+                  performanceMetrics={performanceMetrics}
+                />
+              )}
             </div>
           ) : (
             <div className="space-y-4">
@@ -2,9 +2,11 @@
 
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { FrameSelection } from '@/components/frame-selection';
 import { FrameAnalysis } from '@/components/frame-analysis';
 import { type FrameData } from '@/types/frame';
+import { type ExportPreset, type QualityWeights, type SelectionMode } from '@/types/frame-extraction';
 import { useMemo } from 'react';
 
 interface FrameAnalysisCardProps {
@@ -15,13 +17,28 @@ interface FrameAnalysisCardProps {
   batchBuffer: number;
   bestNCount: number;
   bestNMinGap: number;
+  motionBaseline: number;
+  overlapRange: [number, number];
   percentageThreshold: number;
-  onSelectionModeChangeAction: (mode: 'batched' | 'manual' | 'best-n' | 'top-percent') => void;
+  excludeMotionBlur: boolean;
+  maxMotionBlur: number;
+  suppressDuplicates: boolean;
+  qualityWeights: QualityWeights;
+  qualityScores: Map<string, number>;
+  exportPreset: ExportPreset;
+  onSelectionModeChangeAction: (mode: SelectionMode) => void;
   onBatchSizeChangeAction: (size: number) => void;
   onBatchBufferChangeAction: (buffer: number) => void;
   onBestNCountChangeAction: (count: number) => void;
   onBestNMinGapChangeAction: (gap: number) => void;
+  onMotionBaselineChangeAction: (baseline: number) => void;
+  onOverlapRangeChangeAction: (range: [number, number]) => void;
   onPercentageThresholdChangeAction: (threshold: number) => void;
+  onExcludeMotionBlurChangeAction: (value: boolean) => void;
+  onMaxMotionBlurChangeAction: (value: number) => void;
+  onSuppressDuplicatesChangeAction: (value: boolean) => void;
+  onQualityWeightsChangeAction: (weights: QualityWeights) => void;
+  onExportPresetChangeAction: (preset: ExportPreset) => void;
   onToggleFramesAction: () => void;
   onToggleFrameSelectionAction: (frameId: string) => void;
 }
@@ -34,13 +51,28 @@ export function FrameAnalysisCard({
   batchBuffer,
   bestNCount,
   bestNMinGap,
+  motionBaseline,
+  overlapRange,
   percentageThreshold,
+  excludeMotionBlur,
+  maxMotionBlur,
+  suppressDuplicates,
+  qualityWeights,
+  qualityScores,
+  exportPreset,
   onSelectionModeChangeAction,
   onBatchSizeChangeAction,
   onBatchBufferChangeAction,
   onBestNCountChangeAction,
   onBestNMinGapChangeAction,
+  onMotionBaselineChangeAction,
+  onOverlapRangeChangeAction,
   onPercentageThresholdChangeAction,
+  onExcludeMotionBlurChangeAction,
+  onMaxMotionBlurChangeAction,
+  onSuppressDuplicatesChangeAction,
+  onQualityWeightsChangeAction,
+  onExportPresetChangeAction,
   onToggleFramesAction,
   onToggleFrameSelectionAction
 }: FrameAnalysisCardProps) {
@@ -66,12 +98,27 @@ export function FrameAnalysisCard({
         <div className="m-4">
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-xl font-semibold">Frame Selection</h2>
-            <Button
-              variant="outline"
-              onClick={onToggleFramesAction}
-            >
-              {showFrames ? 'Hide Frames' : 'Show Frames'}
-            </Button>
+            <div className="flex items-center gap-2">
+              <Select
+                value={exportPreset}
+                onValueChange={(value) => onExportPresetChangeAction(value as ExportPreset)}
+              >
+                <SelectTrigger className="w-[180px]" aria-label="Export format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="zip">Images (ZIP)</SelectItem>
+                  <SelectItem value="colmap">COLMAP project</SelectItem>
+                  <SelectItem value="transforms">transforms.json (3DGS)</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={onToggleFramesAction}
+              >
+                {showFrames ? 'Hide Frames' : 'Show Frames'}
+              </Button>
+            </div>
           </div>
 
           <div className="space-y-4">
@@ -82,13 +129,25 @@ export function FrameAnalysisCard({
                 batchBuffer={batchBuffer}
                 bestNCount={bestNCount}
                 bestNMinGap={bestNMinGap}
+                motionBaseline={motionBaseline}
+                overlapRange={overlapRange}
                 percentageThreshold={percentageThreshold}
+                excludeMotionBlur={excludeMotionBlur}
+                maxMotionBlur={maxMotionBlur}
+                suppressDuplicates={suppressDuplicates}
+                qualityWeights={qualityWeights}
                 onSelectionModeChangeAction={onSelectionModeChangeAction}
                 onBatchSizeChangeAction={onBatchSizeChangeAction}
                 onBatchBufferChangeAction={onBatchBufferChangeAction}
                 onBestNCountChangeAction={onBestNCountChangeAction}
                 onBestNMinGapChangeAction={onBestNMinGapChangeAction}
+                onMotionBaselineChangeAction={onMotionBaselineChangeAction}
+                onOverlapRangeChangeAction={onOverlapRangeChangeAction}
                 onPercentageThresholdChangeAction={onPercentageThresholdChangeAction}
+                onExcludeMotionBlurChangeAction={onExcludeMotionBlurChangeAction}
+                onMaxMotionBlurChangeAction={onMaxMotionBlurChangeAction}
+                onSuppressDuplicatesChangeAction={onSuppressDuplicatesChangeAction}
+                onQualityWeightsChangeAction={onQualityWeightsChangeAction}
               />
             </div>
 
@@ -99,6 +158,7 @@ export function FrameAnalysisCard({
                 selectedFrames={selectedFramesSet}
                 onFrameSelectAction={(frameId) => onToggleFrameSelectionAction(frameId)}
                 showImageGrid={showFrames}
+                qualityScores={qualityScores}
               />
             </Card>
           </div>
@@ -15,6 +15,7 @@ interface FrameAnalysisProps {
   selectedFrames: Set<string>;
   onFrameSelectAction: (frameId: string) => void;
   showImageGrid?: boolean;
+  qualityScores?: Map<string, number>;
 }
 
 export function FrameAnalysis({
@@ -22,6 +23,7 @@ export function FrameAnalysis({
   selectedFrames,
   onFrameSelectAction,
   showImageGrid = true,
+  qualityScores,
 }: FrameAnalysisProps) {
   const [selectedFrame, setSelectedFrame] = useState<FrameData | null>(null);
   const [hoveredFrame, setHoveredFrame] = useState<FrameData | null>(null);
@@ -29,6 +31,8 @@ export function FrameAnalysis({
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [frameData, setFrameData] = useState<Record<string, Uint8Array>>({});
   const [scrollPosition, setScrollPosition] = useState(0);
+  const [chartMetric, setChartMetric] = useState<'sharpness' | 'quality'>('sharpness');
+  const chartScores = chartMetric === 'quality' ? qualityScores : undefined;
   const convertingRef = useRef<Record<string, boolean>>({});
 
   // NEW: Replace Map with ThumbnailCache for memory-efficient thumbnail management
@@ -357,6 +361,25 @@ export function FrameAnalysis({
 
       {/* Histogram - Canvas-based chart with internal scroll handling */}
       <div className="space-y-2">
+        {qualityScores && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Plot</span>
+            <Button
+              variant={chartMetric === 'sharpness' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setChartMetric('sharpness')}
+            >
+              Sharpness
+            </Button>
+            <Button
+              variant={chartMetric === 'quality' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setChartMetric('quality')}
+            >
+              Quality Score
+            </Button>
+          </div>
+        )}
         <div ref={canvasContainerRef} className="relative h-[300px] w-full">
           {frames.length > 0 ? (
             <CanvasFrameChart
@@ -366,6 +389,7 @@ export function FrameAnalysis({
               scrollOffset={scrollPosition}
               containerWidth={containerWidth}
               height={300}
+              scores={chartScores}
               onHover={handleCanvasHover}
               onLeave={handleCanvasLeave}
               onClick={handleCanvasClick}
@@ -431,14 +455,16 @@ export function FrameAnalysis({
 
                   // Calculate max sharpness from actual frame data
                   // This adapts to different video content ranges dynamically
-                  const sharpnessValues = frames.map(f => f.sharpnessScore || 0);
+                  const getValue = (frame: FrameData) =>
+                    chartScores ? chartScores.get(frame.id) ?? 0 : frame.sharpnessScore || 0;
+                  const sharpnessValues = frames.map(getValue);
                   const maxSharpness = Math.max(...sharpnessValues, 1); // Ensure at least 1 to prevent division by zero
 
                   // Aggregate frames into buckets - use average of sharpness in each bucket
                   for (let i = 0; i < frames.length; i += bucketSize) {
                     const bucketEnd = Math.min(i + bucketSize, frames.length);
                     const bucketFrames = frames.slice(i, bucketEnd);
-                    const avgSharpness = bucketFrames.reduce((sum, f) => sum + (f.sharpnessScore || 0), 0) / bucketFrames.length;
+                    const avgSharpness = bucketFrames.reduce((sum, f) => sum + getValue(f), 0) / bucketFrames.length;
                     aggregatedData.push(avgSharpness);
                   }
 
@@ -516,6 +542,7 @@ export function FrameAnalysis({
         frame={hoveredFrame}
         position={tooltipPosition}
         getThumbnailUrl={getThumbnailUrl}
+        qualityScore={hoveredFrame ? qualityScores?.get(hoveredFrame.id) : undefined}
       />
 
       {/* Section Title */}
@@ -8,6 +8,8 @@ interface CanvasFrameChartProps {
   scrollOffset: number;
   containerWidth: number;
   height?: number;
+  // Plot these per-frame values (e.g. composite quality) instead of the raw sharpness score
+  scores?: Map<string, number>;
   onHover: (frame: FrameData, position: { x: number; y: number }) => void;
   onLeave: () => void;
   onClick: (frame: FrameData) => void;
@@ -21,6 +23,7 @@ const CanvasFrameChart: React.FC<CanvasFrameChartProps> = ({
   scrollOffset,
   containerWidth,
   height = 300,
+  scores,
   onHover,
   onLeave,
   onClick,
@@ -61,21 +64,26 @@ const CanvasFrameChart: React.FC<CanvasFrameChartProps> = ({
     return { startIndex, endIndex };
   }, [scrollOffset, containerWidth, frames.length]);
 
-  // Calculate max sharpness score for Y-axis scaling
+  const getFrameValue = useCallback((frame: FrameData) => {
+    return scores ? scores.get(frame.id) ?? 0 : frame.sharpnessScore || 0;
+  }, [scores]);
+
+  // Calculate max plotted value for Y-axis scaling
   // Uses actual max from frames to provide proper normalization
   // With raw MAD values, this dynamically adapts to different video content
   const maxSharpnessScore = useMemo(() => {
     let max = 0;
     for (const frame of frames) {
-      if (frame.sharpnessScore && frame.sharpnessScore > max) {
-        max = frame.sharpnessScore;
+      const value = getFrameValue(frame);
+      if (value > max) {
+        max = value;
       }
     }
     // Ensure we have a reasonable minimum max to prevent division by zero
     // and to provide a sensible baseline for the chart
     return Math.max(max, 1);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [frames.length]);
+  }, [frames.length, getFrameValue]);
 
   // Pointer-to-frame conversion
   const getFrameAtPointer = useCallback((clientX: number): { frame: FrameData; barIndex: number } | null => {
@@ -237,8 +245,7 @@ const CanvasFrameChart: React.FC<CanvasFrameChartProps> = ({
       const frame = frames[i];
       if (!frame) continue;
 
-      const sharpness = frame.sharpnessScore || 0;
-      const barHeight = (sharpness / maxSharpnessScore) * chartHeight;
+      const barHeight = (getFrameValue(frame) / maxSharpnessScore) * chartHeight;
 
       // Position bars relative to viewport
       // visibleIndex is 0 for the first visible bar, increments from there
@@ -278,7 +285,7 @@ const CanvasFrameChart: React.FC<CanvasFrameChartProps> = ({
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
     }
-  }, [frames, selectedFrames, hoveredFrameId, containerWidth, maxSharpnessScore, height, visibleRange]);
+  }, [frames, selectedFrames, hoveredFrameId, containerWidth, maxSharpnessScore, height, visibleRange, getFrameValue]);
 
   // Trigger render on prop changes
   useEffect(() => {
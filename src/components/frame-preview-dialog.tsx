@@ -326,6 +326,18 @@ export function FramePreviewDialog({
           {frame.sharpnessScore !== undefined && (
             <div>Sharpness Score: {frame.sharpnessScore.toFixed(2)}</div>
           )}
+          {frame.meanLuminance !== undefined && (
+            <div>Mean Luminance: {frame.meanLuminance.toFixed(1)} / 255</div>
+          )}
+          {frame.highlightClipping !== undefined && (
+            <div>Clipped Highlights: {frame.highlightClipping.toFixed(2)}%</div>
+          )}
+          {frame.shadowClipping !== undefined && (
+            <div>Crushed Shadows: {frame.shadowClipping.toFixed(2)}%</div>
+          )}
+          {frame.noiseLevel !== undefined && (
+            <div>Noise Level: {frame.noiseLevel.toFixed(2)}</div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -6,19 +6,33 @@ import React from 'react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
+import { type QualityWeights, type SelectionMode } from '@/types/frame-extraction';
 
 interface FrameSelectionProps {
   batchSize: number;
   batchBuffer: number;
   bestNCount: number;
   bestNMinGap: number;
+  motionBaseline: number;
+  overlapRange: [number, number];
   percentageThreshold: number;
-  onSelectionModeChangeAction: (mode: 'batched' | 'manual' | 'best-n' | 'top-percent') => void;
+  excludeMotionBlur: boolean;
+  maxMotionBlur: number;
+  suppressDuplicates: boolean;
+  qualityWeights: QualityWeights;
+  onSelectionModeChangeAction: (mode: SelectionMode) => void;
   onBatchSizeChangeAction: (size: number) => void;
   onBatchBufferChangeAction: (buffer: number) => void;
   onBestNCountChangeAction: (count: number) => void;
   onBestNMinGapChangeAction: (gap: number) => void;
+  onMotionBaselineChangeAction: (baseline: number) => void;
+  onOverlapRangeChangeAction: (range: [number, number]) => void;
   onPercentageThresholdChangeAction: (threshold: number) => void;
+  onExcludeMotionBlurChangeAction: (value: boolean) => void;
+  onMaxMotionBlurChangeAction: (value: number) => void;
+  onSuppressDuplicatesChangeAction: (value: boolean) => void;
+  onQualityWeightsChangeAction: (weights: QualityWeights) => void;
 }
 
 export function FrameSelection({
@@ -26,13 +40,25 @@ export function FrameSelection({
   batchBuffer,
   bestNCount,
   bestNMinGap,
+  motionBaseline,
+  overlapRange,
   percentageThreshold,
+  excludeMotionBlur,
+  maxMotionBlur,
+  suppressDuplicates,
+  qualityWeights,
   onSelectionModeChangeAction,
   onBatchSizeChangeAction,
   onBatchBufferChangeAction,
   onBestNCountChangeAction,
   onBestNMinGapChangeAction,
+  onMotionBaselineChangeAction,
+  onOverlapRangeChangeAction,
   onPercentageThresholdChangeAction,
+  onExcludeMotionBlurChangeAction,
+  onMaxMotionBlurChangeAction,
+  onSuppressDuplicatesChangeAction,
+  onQualityWeightsChangeAction,
 }: FrameSelectionProps) {
   const selectionModes = [
     {
@@ -50,6 +76,16 @@ export function FrameSelection({
       label: 'Top Percentage',
       description: 'Select frames with sharpness scores in the top N percent',
     },
+    {
+      value: 'motion',
+      label: 'Camera Motion',
+      description: 'Select the best frame each time the camera has moved far enough since the last pick',
+    },
+    {
+      value: 'overlap',
+      label: 'Feature Overlap',
+      description: 'Keep frames whose matched keypoints overlap the previous kept frame within a target band',
+    },
     {
       value: 'manual',
       label: 'Manual Selection',
@@ -57,6 +93,13 @@ export function FrameSelection({
     },
   ] as const;
 
+  const weightTerms = [
+    { key: 'sharpness', label: 'Sharpness' },
+    { key: 'exposure', label: 'Exposure' },
+    { key: 'noise', label: 'Low Noise' },
+    { key: 'motionBlur', label: 'No Motion Blur' },
+  ] as const;
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -65,11 +108,12 @@ export function FrameSelection({
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="batched" onValueChange={(value: string) => {
-          if (value === 'batched' || value === 'manual' || value === 'best-n' || value === 'top-percent') {
-            onSelectionModeChangeAction(value);
+          const mode = selectionModes.find(m => m.value === value);
+          if (mode) {
+            onSelectionModeChangeAction(mode.value);
           }
         }}>
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-6">
             {selectionModes.map(mode => (
               <TabsTrigger key={mode.value} value={mode.value}>
                 {mode.label}
@@ -141,6 +185,67 @@ export function FrameSelection({
                   </div>
                 </div>
               )}
+              {mode.value === 'motion' && (
+                <div className="space-y-4">
+                  <div className="flex flex-col gap-2">
+                    <Label>Motion Baseline</Label>
+                    <div className="flex items-center gap-4">
+                      <div className="flex-1 max-w-[200px]">
+                        <Slider
+                          value={[motionBaseline]}
+                          onValueChange={(values) => {
+                            if (Array.isArray(values) && typeof values[0] === 'number') {
+                              onMotionBaselineChangeAction(values[0]);
+                            }
+                          }}
+                          min={1}
+                          max={50}
+                          step={1}
+                          className="w-full"
+                          aria-label="Motion baseline"
+                        />
+                      </div>
+                      <div className="w-12 text-sm font-medium">
+                        {motionBaseline}%
+                      </div>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Minimum accumulated image motion, as a share of the frame width, between selected frames
+                    </p>
+                  </div>
+                </div>
+              )}
+              {mode.value === 'overlap' && (
+                <div className="space-y-4">
+                  <div className="flex flex-col gap-2">
+                    <Label>Target Overlap</Label>
+                    <div className="flex items-center gap-4">
+                      <div className="flex-1 max-w-[200px]">
+                        <Slider
+                          value={overlapRange}
+                          onValueChange={(values) => {
+                            if (Array.isArray(values) && values.length === 2) {
+                              onOverlapRangeChangeAction([values[0], values[1]]);
+                            }
+                          }}
+                          min={10}
+                          max={95}
+                          step={5}
+                          minStepsBetweenThumbs={1}
+                          className="w-full"
+                          aria-label="Target overlap range"
+                        />
+                      </div>
+                      <div className="w-20 text-sm font-medium">
+                        {overlapRange[0]}–{overlapRange[1]}%
+                      </div>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Each selected frame shares this much of its view with the previous one. Lower values give fewer frames with wider baselines.
+                    </p>
+                  </div>
+                </div>
+              )}
               {mode.value === 'top-percent' && (
                 <div className="space-y-4">
                   <div className="flex flex-col gap-2">
@@ -175,6 +280,89 @@ export function FrameSelection({
             </TabsContent>
           ))}
         </Tabs>
+        <div className="mt-6 space-y-4 border-t pt-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="excludeMotionBlur"
+              checked={excludeMotionBlur}
+              onCheckedChange={(checked) => onExcludeMotionBlurChangeAction(checked === true)}
+            />
+            <Label htmlFor="excludeMotionBlur">Exclude motion-blurred frames</Label>
+          </div>
+          {excludeMotionBlur && (
+            <div className="flex flex-col gap-2">
+              <Label>Maximum Motion Blur</Label>
+              <div className="flex items-center gap-4">
+                <div className="flex-1 max-w-[200px]">
+                  <Slider
+                    value={[maxMotionBlur]}
+                    onValueChange={(values) => {
+                      if (Array.isArray(values) && typeof values[0] === 'number') {
+                        onMaxMotionBlurChangeAction(values[0]);
+                      }
+                    }}
+                    min={0}
+                    max={100}
+                    step={1}
+                    className="w-full"
+                    aria-label="Maximum motion blur"
+                  />
+                </div>
+                <div className="w-12 text-sm font-medium">
+                  {maxMotionBlur}%
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Frames that lose more sharpness than this against the clip&apos;s median, with directional smear counting double, are skipped by automatic selection. Manual picks are kept.
+              </p>
+            </div>
+          )}
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="suppressDuplicates"
+              checked={suppressDuplicates}
+              onCheckedChange={(checked) => onSuppressDuplicatesChangeAction(checked === true)}
+              className="mt-0.5"
+            />
+            <div className="space-y-1">
+              <Label htmlFor="suppressDuplicates">Skip near-duplicate frames</Label>
+              <p className="text-sm text-muted-foreground">
+                Runs of almost identical frames (e.g. while the camera pauses) contribute only their sharpest frame.
+              </p>
+            </div>
+          </div>
+        </div>
+        <div className="mt-6 space-y-4 border-t pt-4">
+          <div className="flex flex-col gap-1">
+            <Label>Quality Weights</Label>
+            <p className="text-sm text-muted-foreground">
+              Automatic modes rank frames by a weighted quality score. Set a weight to 0 to ignore that term.
+            </p>
+          </div>
+          {weightTerms.map(term => (
+            <div key={term.key} className="flex items-center gap-4">
+              <div className="w-32 text-sm">{term.label}</div>
+              <div className="flex-1 max-w-[200px]">
+                <Slider
+                  value={[qualityWeights[term.key]]}
+                  onValueChange={(values) => {
+                    if (Array.isArray(values) && typeof values[0] === 'number') {
+                      onQualityWeightsChangeAction({ ...qualityWeights, [term.key]: values[0] });
+                    }
+                  }}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  className="w-full"
+                  aria-label={`${term.label} weight`}
+                />
+              </div>
+              <div className="w-12 text-sm font-medium">
+                {qualityWeights[term.key].toFixed(2)}
+              </div>
+            </div>
+          ))}
+        </div>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,153 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Slider } from '@/components/ui/slider';
+import { CropDialog } from '@/components/crop-dialog';
+import { getTransformedSize, type OutputSizeMode, type OutputTransform } from '@/lib/outputTransform';
+
+interface OutputTransformControlsProps {
+  transform: OutputTransform;
+  videoWidth: number;
+  videoHeight: number;
+  previewTime: number;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  onTransformChangeAction: (transform: OutputTransform) => void;
+  processing: boolean;
+}
+
+const SIZE_MODES: { id: OutputSizeMode; label: string }[] = [
+  { id: 'original', label: 'Original' },
+  { id: 'long-edge', label: 'Long Edge' },
+  { id: 'scale', label: 'Scale' },
+];
+
+const ROTATIONS: OutputTransform['rotation'][] = [0, 90, 180, 270];
+
+export function OutputTransformControls({
+  transform,
+  videoWidth,
+  videoHeight,
+  previewTime,
+  videoRef,
+  onTransformChangeAction,
+  processing,
+}: OutputTransformControlsProps) {
+  const update = (changes: Partial<OutputTransform>) => onTransformChangeAction({ ...transform, ...changes });
+  const output = getTransformedSize(videoWidth, videoHeight, transform);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <label className="text-sm font-medium">Output Size</label>
+        <div className="flex gap-2">
+          {SIZE_MODES.map(({ id, label }) => (
+            <Button
+              key={id}
+              variant={transform.sizeMode === id ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => update({ sizeMode: id })}
+              disabled={processing}
+              className="flex-1"
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        {transform.sizeMode === 'long-edge' && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              value={transform.longEdge}
+              onChange={(e) => update({ longEdge: Math.max(16, parseInt(e.target.value) || 16) })}
+              min={16}
+              step={1}
+              className="w-28"
+              disabled={processing}
+            />
+            <span className="text-sm text-muted-foreground">px on the longer side</span>
+          </div>
+        )}
+
+        {transform.sizeMode === 'scale' && (
+          <div className="flex items-center gap-4">
+            <div className="flex-1">
+              <Slider
+                value={[Math.round(transform.scale * 100)]}
+                onValueChange={(values) => {
+                  if (Array.isArray(values) && typeof values[0] === 'number') {
+                    update({ scale: values[0] / 100 });
+                  }
+                }}
+                min={10}
+                max={100}
+                step={5}
+                disabled={processing}
+                aria-label="Output scale"
+              />
+            </div>
+            <div className="w-12 text-sm font-medium">
+              {Math.round(transform.scale * 100)}%
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <label className="text-sm font-medium">Crop</label>
+        <CropDialog
+          crop={transform.crop}
+          videoWidth={videoWidth}
+          videoHeight={videoHeight}
+          previewTime={previewTime}
+          videoRef={videoRef}
+          onCropChangeAction={(crop) => update({ crop })}
+          disabled={processing}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <label className="text-sm font-medium">Rotation</label>
+        <div className="flex gap-2">
+          {ROTATIONS.map((rotation) => (
+            <Button
+              key={rotation}
+              variant={transform.rotation === rotation ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => update({ rotation })}
+              disabled={processing}
+              className="flex-1"
+            >
+              {rotation}°
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-6">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="flipHorizontal"
+              checked={transform.flipHorizontal}
+              onCheckedChange={(checked) => update({ flipHorizontal: checked === true })}
+              disabled={processing}
+            />
+            <label htmlFor="flipHorizontal" className="text-sm">Flip horizontally</label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="flipVertical"
+              checked={transform.flipVertical}
+              onCheckedChange={(checked) => update({ flipVertical: checked === true })}
+              disabled={processing}
+            />
+            <label htmlFor="flipVertical" className="text-sm">Flip vertically</label>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Output frames: {output.width}×{output.height}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { type ProgressInfo } from '@/types/frame-extraction';
+import { type ExtractionMethod } from '@/lib/frameExtractionService';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { Loader2 } from 'lucide-react';
@@ -6,7 +7,7 @@ import { Loader2 } from 'lucide-react';
 interface ProgressIndicatorProps {
   extractionProgress: ProgressInfo;
   sharpnessProgress: ProgressInfo;
-  extractionMethod?: 'MediaBunny' | 'Canvas' | null;
+  extractionMethod?: ExtractionMethod | null;
   onCancelAction: () => void;
 }
 
@@ -33,7 +34,9 @@ export function ProgressIndicator({
             <span>Extracting Frames</span>
             {extractionMethod && (
               <span className="text-xs px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full">
-                {extractionMethod === 'Canvas' ? 'Legacy Extraction Method' : extractionMethod}
+                {extractionMethod === 'Canvas'
+                  ? 'Legacy Extraction Method'
+                  : extractionMethod === 'FFmpeg' ? 'FFmpeg Software Decoding' : extractionMethod}
               </span>
             )}
           </div>
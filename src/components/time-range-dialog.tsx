@@ -13,37 +13,67 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog"
 import { VideoRangeSelector } from "@/components/video-range-selector"
+import { type TimeRange } from "@/types/frame-extraction"
 
 interface TimeRangeDialogProps {
   duration: number
-  timeRange: [number, number]
+  timeRanges: TimeRange[]
+  // Extraction fps, used by ranges without their own
+  fps: number
   videoRef: React.RefObject<HTMLVideoElement | null>
-  onTimeRangeChangeAction: (range: [number, number]) => void
+  onTimeRangesChangeAction: (ranges: TimeRange[]) => void
+}
+
+// First "Range N" label not taken by another range
+function nextRangeLabel(ranges: TimeRange[]) {
+  const labels = new Set(ranges.map(range => range.label))
+  let n = ranges.length + 1
+  while (labels.has(`Range ${n}`)) n++
+  return `Range ${n}`
 }
 
 export function TimeRangeDialog({
   duration,
-  timeRange,
+  timeRanges,
+  fps,
   videoRef,
-  onTimeRangeChangeAction,
+  onTimeRangesChangeAction,
 }: TimeRangeDialogProps) {
   const [open, setOpen] = React.useState(false)
-  const [localRange, setLocalRange] = React.useState(timeRange)
+  const [localRanges, setLocalRanges] = React.useState(timeRanges)
+  const [activeIndex, setActiveIndex] = React.useState(0)
   const [startTimeText, setStartTimeText] = React.useState("")
   const [endTimeText, setEndTimeText] = React.useState("")
   const [timeError, setTimeError] = React.useState<string | null>(null)
   const startPreviewRef = React.useRef<HTMLVideoElement>(null)
   const endPreviewRef = React.useRef<HTMLVideoElement>(null)
 
-  // Reset local range and text inputs when dialog opens
+  // The range being edited by the inputs, slider and previews below
+  const localRange = React.useMemo<[number, number]>(() => {
+    const active = localRanges[activeIndex]
+    return active ? [active.start, active.end] : [0, duration]
+  }, [localRanges, activeIndex, duration])
+
+  const setLocalRange = (range: [number, number]) => {
+    setLocalRanges(prev => prev.map((item, index) =>
+      index === activeIndex ? { ...item, start: range[0], end: range[1] } : item
+    ))
+  }
+
+  const updateRange = (index: number, changes: Partial<TimeRange>) => {
+    setLocalRanges(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item))
+  }
+
+  // Reset local ranges and text inputs when dialog opens
   React.useEffect(() => {
     if (open) {
-      setLocalRange(timeRange)
-      setStartTimeText(formatTime(timeRange[0]))
-      setEndTimeText(formatTime(timeRange[1]))
+      setLocalRanges(timeRanges)
+      setActiveIndex(0)
+      setStartTimeText(formatTime(timeRanges[0]?.start ?? 0))
+      setEndTimeText(formatTime(timeRanges[0]?.end ?? duration))
       setTimeError(null)
     }
-  }, [open, timeRange])
+  }, [open, timeRanges, duration])
 
   // Update preview videos when range changes
   React.useEffect(() => {
@@ -150,11 +180,36 @@ export function TimeRangeDialog({
     setLocalRange(newRange)
   }
 
+  // New ranges start where the last one ends, e.g. the next orbit after a transit
+  const lastEnd = localRanges.reduce((end, range) => Math.max(end, range.end), 0)
+
+  const handleAddRange = () => {
+    setLocalRanges(prev => [...prev, { start: lastEnd, end: duration, label: nextRangeLabel(prev) }])
+    setActiveIndex(localRanges.length)
+    setTimeError(null)
+  }
+
+  const handleRemoveRange = (index: number) => {
+    setLocalRanges(prev => prev.filter((_, i) => i !== index))
+    setActiveIndex(prev => Math.max(0, prev > index ? prev - 1 : Math.min(prev, localRanges.length - 2)))
+    setTimeError(null)
+  }
+
   const handleSave = () => {
-    if (!timeError) {
-      onTimeRangeChangeAction(localRange)
-      setOpen(false)
+    if (timeError) return
+
+    const sorted = [...localRanges].sort((a, b) => a.start - b.start)
+    if (sorted.some((range, index) => index > 0 && range.start < sorted[index - 1].end)) {
+      setTimeError("Time ranges must not overlap")
+      return
+    }
+    if (sorted.some(range => range.end <= range.start)) {
+      setTimeError("Each time range must be longer than zero")
+      return
     }
+
+    onTimeRangesChangeAction(sorted)
+    setOpen(false)
   }
 
   const formatTime = (seconds: number) => {
@@ -168,18 +223,71 @@ export function TimeRangeDialog({
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
         <Button variant="outline" className="w-full">
-          Time Range: {formatTime(timeRange[0])} - {formatTime(timeRange[1])}
+          {timeRanges.length === 1
+            ? `Time Range: ${formatTime(timeRanges[0].start)} - ${formatTime(timeRanges[0].end)}`
+            : `Time Ranges: ${timeRanges.length} ranges, ${formatTime(timeRanges.reduce((sum, range) => sum + range.end - range.start, 0))} total`}
         </Button>
       </DialogTrigger>
       <DialogContent className="sm:max-w-[600px]">
         <DialogHeader>
           <DialogTitle>Select Time Range</DialogTitle>
           <DialogDescription>
-            Choose the start and end times for frame extraction.
+            Choose the start and end times for frame extraction. Add more ranges to skip the parts in between.
           </DialogDescription>
         </DialogHeader>
         
         <div className="grid gap-4 py-4">
+          <div className="space-y-2">
+            {localRanges.map((range, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Button
+                  variant={index === activeIndex ? "default" : "outline"}
+                  size="sm"
+                  className="w-44 justify-start font-mono"
+                  onClick={() => {
+                    setActiveIndex(index)
+                    setTimeError(null)
+                  }}
+                >
+                  {formatTime(range.start)} - {formatTime(range.end)}
+                </Button>
+                <Input
+                  value={range.label}
+                  onChange={(e) => updateRange(index, { label: e.target.value })}
+                  onBlur={(e) => {
+                    if (!e.target.value.trim()) updateRange(index, { label: nextRangeLabel(localRanges) })
+                  }}
+                  aria-label="Range label"
+                  className="h-8 flex-1"
+                />
+                <Input
+                  type="number"
+                  value={range.fps ?? ""}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value)
+                    updateRange(index, { fps: value > 0 ? value : undefined })
+                  }}
+                  placeholder={`${fps} fps`}
+                  aria-label="Range fps"
+                  min={0.1}
+                  step={0.1}
+                  className="h-8 w-24"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRemoveRange(index)}
+                  disabled={localRanges.length <= 1}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={handleAddRange} disabled={lastEnd >= duration}>
+              Add Range
+            </Button>
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <label className="text-sm font-medium">Start Time</label>
@@ -210,6 +318,9 @@ export function TimeRangeDialog({
           <VideoRangeSelector
             duration={duration}
             value={localRange}
+            otherRanges={localRanges
+              .filter((_, index) => index !== activeIndex)
+              .map((range): [number, number] => [range.start, range.end])}
             onRangeChangeAction={handleRangeChange}
             videoRef={videoRef}
           />
@@ -246,7 +357,7 @@ export function TimeRangeDialog({
             Cancel
           </Button>
           <Button onClick={handleSave} disabled={!!timeError}>
-            Save Range
+            {localRanges.length === 1 ? "Save Range" : "Save Ranges"}
           </Button>
         </DialogFooter>
       </DialogContent>
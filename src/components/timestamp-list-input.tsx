@@ -0,0 +1,107 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { parseTimestampList, toListedFrames, type TimestampUnit } from '@/lib/timestampList';
+import { useMemo, useRef } from 'react';
+
+interface TimestampListInputProps {
+  value: string;
+  unit: TimestampUnit;
+  videoMetadata: { fps: number; duration: number } | null;
+  onValueChangeAction: (value: string) => void;
+  onUnitChangeAction: (unit: TimestampUnit) => void;
+  processing: boolean;
+}
+
+export function TimestampListInput({
+  value,
+  unit,
+  videoMetadata,
+  onValueChangeAction,
+  onUnitChangeAction,
+  processing,
+}: TimestampListInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const summary = useMemo(() => {
+    try {
+      const list = parseTimestampList(value);
+      const count = videoMetadata
+        ? toListedFrames(list, unit, videoMetadata.duration).values.length
+        : 0;
+      return { list, count, error: null };
+    } catch (error) {
+      return { list: null, count: 0, error: error instanceof Error ? error.message : 'Could not read the list' };
+    }
+  }, [value, unit, videoMetadata]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    onValueChangeAction(await file.text());
+  };
+
+  const listUnit = summary.list?.unit ?? null;
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-medium">Timestamps or Frame Numbers</label>
+      <textarea
+        value={value}
+        onChange={(e) => onValueChangeAction(e.target.value)}
+        placeholder={'12.5\n0:42.10\n1:05:03.250'}
+        rows={5}
+        spellCheck={false}
+        disabled={processing}
+        className="flex w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+      />
+      <div className="flex items-center gap-2">
+        <Select
+          value={listUnit ?? unit}
+          onValueChange={(id) => onUnitChangeAction(id as TimestampUnit)}
+          disabled={processing || listUnit !== null}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="seconds">Seconds</SelectItem>
+            <SelectItem value="frames">Frame numbers</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={processing}
+        >
+          Load CSV/JSON
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,.txt,text/csv,application/json,text/plain"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+      <p className={`text-xs ${summary.error ? 'text-red-500' : 'text-muted-foreground'}`}>
+        {summary.error ?? (
+          summary.list && summary.list.values.length > 0
+            ? `${summary.count} frame${summary.count === 1 ? '' : 's'} to extract` +
+              (summary.count < summary.list.values.length ? ' (duplicates and times outside the video are skipped)' : '') +
+              (listUnit ? `; unit taken from the list's ${listUnit === 'frames' ? 'frame' : 'time'} column` : '')
+            : 'One entry per line, or separated by commas or spaces. CSV files need a time or frame column; JSON an array of numbers or objects.'
+        )}
+      </p>
+      {(listUnit ?? unit) === 'frames' && (
+        <p className="text-xs text-muted-foreground">
+          Frame numbers count the video&apos;s frames from 0 in display order, so they hold on variable-frame-rate footage. Tick &quot;Name using original framerate&quot; to name files by these numbers.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 'use client';
 
+import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { VideoInput } from '@/components/video-input';
 import { type VideoMetadata } from '@/lib/videoUtils';
+import { type ExportManifest } from '@/lib/exportManifest';
 import { useCallback } from 'react';
 
 interface UploadCardProps {
@@ -14,6 +16,9 @@ interface UploadCardProps {
   onVideoChangeAction: (file: File) => void;
   onVideoReplaceAction: () => void;
   onImageDirectoryChangeAction?: (files: FileList) => Promise<void>;
+  importedManifest?: ExportManifest | null;
+  onManifestImportAction?: (file: File) => void;
+  onManifestDiscardAction?: () => void;
   isImageMode?: boolean;
   imageCount?: number;
   extractionProgress?: { current: number; total: number };
@@ -28,6 +33,9 @@ export function UploadCard({
   onVideoChangeAction,
   onVideoReplaceAction,
   onImageDirectoryChangeAction,
+  importedManifest,
+  onManifestImportAction,
+  onManifestDiscardAction,
   isImageMode = false,
   imageCount = 0,
   extractionProgress,
@@ -37,9 +45,25 @@ export function UploadCard({
     await onImageDirectoryChangeAction?.(files);
   }, [onImageDirectoryChangeAction]);
 
+  const openManifestSelector = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.onchange = (e: Event) => {
+      const target = e.target as HTMLInputElement;
+      if (target.files && target.files[0]) {
+        onManifestImportAction?.(target.files[0]);
+      }
+      target.value = '';
+    };
+    input.click();
+  }, [onManifestImportAction]);
+
+  const manualPicks = importedManifest?.frames.filter(frame => frame.selection === 'manual').length ?? 0;
+
   return (
     <Card className="rounded-[14px] bg-white h-full">
-      <div className="p-6 h-full">
+      <div className="p-6 h-full space-y-4">
         <VideoInput
           video={video}
           videoThumbnail={videoThumbnail}
@@ -49,10 +73,33 @@ export function UploadCard({
           onVideoChangeAction={onVideoChangeAction}
           onVideoReplaceAction={onVideoReplaceAction}
           onImageDirectoryChangeAction={handleImageDirectoryChange}
+          onManifestDropAction={onManifestImportAction}
           isImageMode={isImageMode}
           imageCount={imageCount}
           extractionProgress={extractionProgress}
         />
+
+        {onManifestImportAction && (
+          <div className="flex items-center justify-between gap-4 text-sm text-gray-500">
+            {importedManifest ? (
+              <span>
+                Manifest loaded: {importedManifest.frames.length} frames, {manualPicks} picked manually.
+                {' '}Scores and picks are restored on the next {importedManifest.source.type === 'images' ? 'image load' : 'extraction'}.
+              </span>
+            ) : (
+              <span>Continuing a previous selection? Load its manifest.json.</span>
+            )}
+            {importedManifest ? (
+              <Button variant="outline" size="sm" onClick={onManifestDiscardAction}>
+                Discard
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={openManifestSelector} disabled={loadingMetadata}>
+                Load Manifest
+              </Button>
+            )}
+          </div>
+        )}
       </div>
     </Card>
   );
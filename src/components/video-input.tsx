@@ -15,6 +15,7 @@ interface VideoInputProps {
   onVideoChangeAction: (file: File) => void;
   onVideoReplaceAction: () => void;
   onImageDirectoryChangeAction?: (files: FileList) => Promise<void>;
+  onManifestDropAction?: (file: File) => void;
   isImageMode?: boolean;
   imageCount?: number;
   extractionProgress?: { current: number; total: number };
@@ -29,6 +30,7 @@ export const VideoInput: React.FC<VideoInputProps> = ({
   onVideoChangeAction,
   onVideoReplaceAction,
   onImageDirectoryChangeAction,
+  onManifestDropAction,
   isImageMode = false,
   imageCount = 0,
   extractionProgress,
@@ -61,11 +63,18 @@ export const VideoInput: React.FC<VideoInputProps> = ({
     
     if (loadingMetadata) return;
 
-    const file = e.dataTransfer.files?.[0];
+    // A manifest can be dropped together with the video it was made from
+    const files = Array.from(e.dataTransfer.files ?? []);
+    const manifest = files.find(f => f.name.toLowerCase().endsWith('.json'));
+    if (manifest) {
+      onManifestDropAction?.(manifest);
+    }
+
+    const file = files.find(f => f !== manifest);
     if (!file) return;
     
     onVideoChangeAction(file);
-  }, [loadingMetadata, onVideoChangeAction]);
+  }, [loadingMetadata, onVideoChangeAction, onManifestDropAction]);
 
   const openDirectorySelector = useCallback(() => {
     if (loadingMetadata) return;
@@ -87,7 +96,7 @@ export const VideoInput: React.FC<VideoInputProps> = ({
 
       const imageFiles = Array.from(target.files).filter(file =>
         file.type.startsWith('image/') ||
-        file.name.toLowerCase().match(/\.(jpg|jpeg|png|gif|webp)$/)
+        file.name.toLowerCase().match(/\.(jpg|jpeg|png|gif|webp|avif)$/)
       );
 
       if (imageFiles.length === 0) {
@@ -204,7 +213,9 @@ export const VideoInput: React.FC<VideoInputProps> = ({
                     </div>
                     <div className="space-y-1">
                       <div className="text-sm text-gray-500">FPS</div>
-                      <div className="text-sm font-semibold text-gray-900">{metadata.fps} fps</div>
+                      <div className="text-sm font-semibold text-gray-900">
+                        {metadata.fps} fps{metadata.probe?.variableFrameRate && ' (variable)'}
+                      </div>
                     </div>
                     <div className="space-y-1">
                       <div className="text-sm text-gray-500">Total Frames</div>
@@ -212,8 +223,35 @@ export const VideoInput: React.FC<VideoInputProps> = ({
                     </div>
                     <div className="space-y-1">
                       <div className="text-sm text-gray-500">Codec</div>
-                      <div className="text-sm font-semibold text-gray-900">h264</div>
+                      <div className="text-sm font-semibold text-gray-900" title={metadata.probe?.codecString ?? undefined}>
+                        {[
+                          metadata.codec,
+                          metadata.probe?.profile,
+                          metadata.probe?.bitDepth && `${metadata.probe.bitDepth}-bit`,
+                          metadata.probe?.hdr && 'HDR',
+                        ].filter(Boolean).join(' · ')}
+                      </div>
                     </div>
+                    {metadata.probe && (
+                      <>
+                        <div className="space-y-1">
+                          <div className="text-sm text-gray-500">Container</div>
+                          <div className="text-sm font-semibold text-gray-900">{metadata.probe.container}</div>
+                        </div>
+                        <div className="space-y-1">
+                          <div className="text-sm text-gray-500">Bitrate</div>
+                          <div className="text-sm font-semibold text-gray-900">
+                            {(metadata.probe.bitrate / 1_000_000).toFixed(1)} Mbps
+                          </div>
+                        </div>
+                        <div className="space-y-1">
+                          <div className="text-sm text-gray-500">Tracks</div>
+                          <div className="text-sm font-semibold text-gray-900">
+                            {metadata.probe.tracks.map(track => `${track.type} (${track.codec ?? 'unknown'})`).join(', ')}
+                          </div>
+                        </div>
+                      </>
+                    )}
                   </div>
                 )}
               </div>
@@ -6,6 +6,8 @@ import { Slider } from "@/components/ui/slider"
 interface VideoRangeSelectorProps {
   duration: number
   value: [number, number]
+  // Other ranges of the same extraction, shown for reference
+  otherRanges?: [number, number][]
   onRangeChangeAction: (range: [number, number]) => void
   videoRef: React.RefObject<HTMLVideoElement | null>
 }
@@ -13,6 +15,7 @@ interface VideoRangeSelectorProps {
 export function VideoRangeSelector({
   duration,
   value,
+  otherRanges = [],
   onRangeChangeAction,
   videoRef,
 }: VideoRangeSelectorProps) {
@@ -84,6 +87,20 @@ export function VideoRangeSelector({
           }}
           className="w-full"
         />
+        {otherRanges.length > 0 && (
+          <div className="relative h-1.5 mt-2 rounded-full bg-gray-100">
+            {otherRanges.map(([start, end], index) => (
+              <div
+                key={index}
+                className="absolute h-full rounded-full bg-gray-400"
+                style={{
+                  left: `${(start / duration) * 100}%`,
+                  width: `${((end - start) / duration) * 100}%`,
+                }}
+              />
+            ))}
+          </div>
+        )}
       </div>
       
       <div className="text-sm text-muted-foreground">
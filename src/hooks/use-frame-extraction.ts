@@ -1,25 +1,52 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { type ExtractPageState, defaultState } from '@/types/frame-extraction';
-import { extractFrames } from '@/lib/frameExtractionService';
-import { calculateSharpnessScore } from '@/lib/opencvUtils';
+import { type ExtractPageState, type SelectionMode, defaultState } from '@/types/frame-extraction';
+import { extractFrames, type ExtractionMethod } from '@/lib/frameExtractionService';
+import { SharpnessWorkerPool } from '@/lib/sharpnessWorkerPool';
+import { findDuplicateGroups } from '@/lib/perceptualHash';
+import { estimateMotion } from '@/lib/motionEstimation';
+import { type GrayscaleImage } from '@/lib/sharpnessMetrics';
+import { type FeatureSet } from '@/lib/featureMatching';
 import { type FrameData } from '@/types/frame';
 import { getVideoMetadata } from '@/lib/videoUtils';
+import { checkDecoderSupport, type DecoderSupport } from '@/lib/codecDetection';
 import { getSelectedFrames } from '@/utils/frame-selection';
-import { downloadFramesSmartZip } from '@/lib/streamingZipUtils';
+import {
+  buildExportManifest,
+  canRestoreAnalysis,
+  createManifestLookup,
+  getManifestAnalysis,
+  getManifestSettings
+} from '@/utils/manifest-selection';
+import { parseExportManifest } from '@/lib/exportManifest';
+import { parseTimestampList, toListedFrames, type ListedFrames } from '@/lib/timestampList';
+import {
+  downloadFramesSmartZip,
+  downloadFramesAsColmapProject,
+  downloadFramesAsTransformsProject,
+  type ProjectExportOptions
+} from '@/lib/streamingZipUtils';
 import { frameStorage } from '@/lib/frameStorage';
 import { type FrameMetadata } from '@/types/frame';
 
+// How long the <video> element gets to show the first frame before the file counts as unplayable
+const PLAYBACK_PROBE_TIMEOUT_MS = 10000;
+
 export function useFrameExtraction() {
   const [state, setState] = useState<ExtractPageState>(defaultState);
-  const [extractionMethod, setExtractionMethod] = useState<'MediaBunny' | 'Canvas' | null>(null);
+  const [extractionMethod, setExtractionMethod] = useState<ExtractionMethod | null>(null);
   const [fallbackReason, setFallbackReason] = useState<string | null>(null);
+  const [decoderSupport, setDecoderSupport] = useState<DecoderSupport | null>(null);
+  // Whether the <video> element could show the loaded file's first frame
+  const [videoPlayable, setVideoPlayable] = useState<boolean | null>(null);
   const [performanceMetrics, setPerformanceMetrics] = useState<{
     duration: number;
     framesPerSecond: number;
   } | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Set until a new video has replaced the old frames, so a manifest dropped with it waits for the new ones
+  const videoChangePendingRef = useRef(false);
 
   // State update helper with proper typing
   const updateState = useCallback((updater: (prev: ExtractPageState) => ExtractPageState) => {
@@ -37,6 +64,7 @@ export function useFrameExtraction() {
 
   const handleVideoChange = useCallback(async (file: File) => {
     if (!file) return;
+    videoChangePendingRef.current = true;
 
     // Clean up previous video URL if it exists
     if (state.videoThumbnailUrl) {
@@ -49,6 +77,8 @@ export function useFrameExtraction() {
     // Reset extraction method and performance metrics for new video
     setExtractionMethod(null);
     setPerformanceMetrics(null);
+    setDecoderSupport(null);
+    setVideoPlayable(null);
 
     updateState(prev => ({
       ...prev,
@@ -60,18 +90,17 @@ export function useFrameExtraction() {
       videoMetadata: null,
       isImageMode: false,
     }));
+    videoChangePendingRef.current = false;
 
     try {
       updateState(prev => ({ ...prev, loadingMetadata: true }));
 
-      // Get metadata using FFmpeg first (this will work even if browser can't decode)
+      // Read metadata from the container headers (this will work even if browser can't decode)
       const metadata = await getVideoMetadata(file);
 
-      // Check codec compatibility with current browser BEFORE trying to load in video element
-      const codecIssue = checkCodecBrowserCompatibility(metadata.codec);
-      if (codecIssue) {
-        throw new Error(codecIssue);
-      }
+      // Ask WebCodecs about the track's real decoder config; shown before extraction starts
+      const support = await checkDecoderSupport(file);
+      setDecoderSupport(support);
 
       // Create video URL for both thumbnail and video element
       const videoUrl = URL.createObjectURL(file);
@@ -80,26 +109,35 @@ export function useFrameExtraction() {
       const video = document.createElement('video');
       video.src = videoUrl;
 
-      // Wait for video metadata to load
-      await new Promise((resolve, reject) => {
-        video.onloadedmetadata = resolve;
-        video.onerror = reject;
-      });
-
-      // Seek to the first frame
-      video.currentTime = 0;
-
-      // Wait for the frame to be available
-      await new Promise((resolve) => {
-        video.onseeked = resolve;
+      // Wait for video metadata and the first frame. A browser that can't play the codec isn't
+      // fatal: extraction falls back to FFmpeg, only the preview stays blank. Some browsers parse
+      // the container but never decode a frame (10-bit HEVC, ProRes), so the seek must finish too.
+      const playable = await new Promise<boolean>((resolve) => {
+        const timeout = setTimeout(() => resolve(false), PLAYBACK_PROBE_TIMEOUT_MS);
+        const finish = (result: boolean) => {
+          clearTimeout(timeout);
+          resolve(result);
+        };
+        video.onloadedmetadata = () => {
+          if (video.videoWidth === 0) {
+            finish(false);
+            return;
+          }
+          video.onseeked = () => finish(true);
+          video.currentTime = 0;
+        };
+        video.onerror = () => finish(false);
       });
-
-      // Create a canvas to capture the frame
-      const canvas = document.createElement('canvas');
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      const ctx = canvas.getContext('2d');
-      ctx?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      setVideoPlayable(playable);
+
+      if (playable) {
+        // Create a canvas to capture the frame
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext('2d');
+        ctx?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      }
 
       updateState(prev => ({
         ...prev,
@@ -107,7 +145,11 @@ export function useFrameExtraction() {
         videoThumbnailUrl: videoUrl,
         loadingMetadata: false,
         fps: 10,
-        timeRange: [0, metadata.duration],
+        timeRanges: [{ start: 0, end: metadata.duration, label: 'Range 1' }],
+        // A manifest imported before the video brings the extraction settings it was made with
+        ...(prev.importedManifest && getManifestSettings(prev.importedManifest, prev.formatQuality, metadata.duration)),
+        // Only interval extraction has decoders besides WebCodecs to fall back on
+        ...(!support.supported && { extractionMode: 'interval' as const }),
       }));
 
       // Cleanup temporary elements
@@ -127,18 +169,10 @@ export function useFrameExtraction() {
             case 'NotSupportedError':
               errorMessage = 'Video codec not supported. Try a different video format (H264, HEVC, VP8, VP9, AV1)';
               break;
-            case 'QuotaExceededError':
-              errorMessage = 'Video file is too large. Maximum size is ~1.9GB, but varies based on your browser memory. Try a smaller file or use Chrome for better performance.';
-              break;
           }
         }
       }
 
-      // Check if it's a file size issue based on common patterns
-      if (errorMessage.toLowerCase().includes('quota') || errorMessage.toLowerCase().includes('memory')) {
-        errorMessage = 'Video file is too large. Maximum size is ~1.9GB, but varies based on your browser memory. Try a smaller file or use Chrome for better performance.';
-      }
-
       // Detect Firefox-specific codec issues
       if (errorMessage.toLowerCase().includes('could not be decoded') || errorMessage.toLowerCase().includes('ns_error_dom_media')) {
         errorMessage = 'Your browser cannot decode this video format. This is often a Firefox limitation with certain codecs. Try using Chrome, or convert your video to H264 format for better compatibility.';
@@ -163,6 +197,8 @@ export function useFrameExtraction() {
     // Reset extraction method and performance metrics when replacing video
     setExtractionMethod(null);
     setPerformanceMetrics(null);
+    setDecoderSupport(null);
+    setVideoPlayable(null);
     
     updateState(prev => ({
       ...prev,
@@ -197,7 +233,7 @@ export function useFrameExtraction() {
       return;
     }
 
-    if (state.fps <= 0) {
+    if (state.extractionMode === 'interval' && state.fps <= 0) {
       updateState(prev => ({
         ...prev,
         error: 'FPS must be greater than 0',
@@ -205,6 +241,28 @@ export function useFrameExtraction() {
       return;
     }
 
+    let listedFrames: ListedFrames | undefined;
+    if (state.extractionMode === 'timestamps') {
+      try {
+        const list = parseTimestampList(state.timestampList);
+        listedFrames = toListedFrames(list, state.timestampUnit, state.videoMetadata.duration);
+      } catch (error) {
+        updateState(prev => ({
+          ...prev,
+          error: error instanceof Error ? error.message : 'Could not read the timestamp list',
+        }));
+        return;
+      }
+
+      if (listedFrames.values.length === 0) {
+        updateState(prev => ({
+          ...prev,
+          error: 'The timestamp list has no times within the video',
+        }));
+        return;
+      }
+    }
+
     // Clear IndexedDB storage before starting new extraction to prevent memory issues
     await frameStorage.clear();
 
@@ -238,7 +296,9 @@ export function useFrameExtraction() {
         videoFile: state.videoFile,
         fps: state.fps,
         format: state.format,
-        timeRange: state.timeRange,
+        quality: state.formatQuality[state.format],
+        timeRanges: state.timeRanges,
+        listedFrames,
         onProgress: (current: number, total: number) => {
           updateState(prev => ({
             ...prev,
@@ -252,15 +312,20 @@ export function useFrameExtraction() {
             },
           }));
         },
-        onMethodDetermined: (method: 'MediaBunny' | 'Canvas', reason?: string) => {
+        onMethodDetermined: (method: ExtractionMethod, reason?: string) => {
           setExtractionMethod(method);
           setFallbackReason(reason || null);
         },
         signal,
         prefix: state.prefix,
+        videoPlayable: videoPlayable ?? undefined,
         useOriginalFrameRate: state.useOriginalFrameRate,
         originalFps: state.videoMetadata?.fps,
-        videoMetadata: state.videoMetadata
+        videoMetadata: state.videoMetadata,
+        mode: state.extractionMode,
+        sceneThreshold: state.sceneThreshold,
+        frameStep: state.frameStep,
+        transform: state.outputTransform
       });
 
       const { frames: extractedFrames, method, performance, fallbackReason: reason } = result;
@@ -277,74 +342,88 @@ export function useFrameExtraction() {
         throw new DOMException('Aborted', 'AbortError');
       }
 
-      // Create FrameData objects with sharpness scores (parallel processing)
+      // Score sharpness in a worker pool so thousands of frames don't block the UI
       const totalFrames = extractedFrames.length;
-      const SHARPNESS_BATCH_SIZE = 10; // Process 10 frames at a time for sharpness
+      const SHARPNESS_PROGRESS_INTERVAL = 10; // Update progress every 10 scored frames
 
       // Update state to show sharpness calculation progress
       updateState(prev => ({
         ...prev,
         sharpnessProgress: { current: 0, total: totalFrames, startTime: Date.now() }
       }));
-      
-      const frames: FrameData[] = [];
-      
-      // Process sharpness in batches for better performance and progress reporting
-      for (let i = 0; i < totalFrames; i += SHARPNESS_BATCH_SIZE) {
-        if (signal.aborted) {
-          throw new DOMException('Aborted', 'AbortError');
-        }
-        
-        const batch = extractedFrames.slice(i, i + SHARPNESS_BATCH_SIZE);
-        
-        // Process batch in parallel - no unnecessary buffer conversions
-        const batchPromises = batch.map(async (frame) => {
-          // Calculate sharpness directly from blob
-          const sharpnessScore = await calculateSharpnessScore(frame.blob);
-          
+
+      const sharpnessMetric = state.sharpnessMetric;
+      const pool = new SharpnessWorkerPool();
+      const terminatePool = () => pool.terminate();
+      signal.addEventListener('abort', terminatePool);
+
+      const motionThumbnails: (GrayscaleImage | undefined)[] = new Array(totalFrames);
+      const manifest = state.importedManifest;
+      const findManifestFrame = manifest ? createManifestLookup(manifest) : null;
+      const restoreAnalysis = manifest ? canRestoreAnalysis(manifest) : false;
+      let frames: FrameData[];
+      try {
+        let scoredFrames = 0;
+
+        frames = await Promise.all(extractedFrames.map(async (frame, index) => {
+          const timestamp = frame.timestamp * 1000; // Use actual timestamp from MediaBunny, convert to milliseconds
+          const manifestFrame = findManifestFrame?.({ name: frame.name, timestamp }, index);
+
+          const restored = manifestFrame && restoreAnalysis ? getManifestAnalysis(manifestFrame) : null;
+          let analysis: Partial<FrameMetadata>;
+          if (restored) {
+            analysis = restored;
+          } else {
+            const { motionThumbnail, ...measured } = await pool.analyze(frame.blob, sharpnessMetric);
+            motionThumbnails[index] = motionThumbnail;
+            analysis = measured;
+          }
+
+          scoredFrames++;
+          if (scoredFrames % SHARPNESS_PROGRESS_INTERVAL === 0 || scoredFrames === totalFrames) {
+            const currentFrames = scoredFrames;
+            updateState(prev => ({
+              ...prev,
+              sharpnessProgress: {
+                current: currentFrames,
+                total: totalFrames,
+                startTime: prev.sharpnessProgress.startTime,
+                estimatedTimeMs: prev.sharpnessProgress.startTime
+                  ? ((Date.now() - prev.sharpnessProgress.startTime) / currentFrames) *
+                      (totalFrames - currentFrames)
+                  : undefined,
+              }
+            }));
+          }
+
           // Don't store blob in React state to prevent memory leaks
           return {
             id: frame.id,
             name: frame.name,
             format: frame.format,
-            sharpnessScore,
-            timestamp: frame.timestamp * 1000, // Use actual timestamp from MediaBunny, convert to milliseconds
-            selected: false
+            rangeLabel: frame.rangeLabel,
+            sharpnessMetric,
+            ...analysis,
+            timestamp,
+            selected: manifestFrame?.selection === 'manual'
           } as FrameData;
-        });
-        
-        // Wait for batch completion
-        const batchResults = await Promise.all(batchPromises);
-        frames.push(...batchResults);
-        
-        // Clear batch references to free memory
-        batchPromises.length = 0;
-        
-        // Update progress after each batch
-        const currentFrames = Math.min(i + SHARPNESS_BATCH_SIZE, totalFrames);
-        updateState(prev => ({
-          ...prev,
-          sharpnessProgress: {
-            current: currentFrames,
-            total: totalFrames,
-            startTime: prev.sharpnessProgress.startTime,
-            estimatedTimeMs: prev.sharpnessProgress.startTime
-              ? ((Date.now() - prev.sharpnessProgress.startTime) / currentFrames) *
-                  (totalFrames - currentFrames)
-              : undefined,
-          }
         }));
-        
-        // Small delay to keep UI responsive
-        if (i + SHARPNESS_BATCH_SIZE < totalFrames) {
-          await new Promise(resolve => setTimeout(resolve, 10));
-        }
+      } finally {
+        signal.removeEventListener('abort', terminatePool);
+        pool.terminate();
       }
 
-      // Update state with processed frames
+      frames = withDuplicateGroups(await withMotionMagnitudes(frames, motionThumbnails));
+
+      if (signal.aborted) {
+        throw new DOMException('Aborted', 'AbortError');
+      }
+
+      // Update state with processed frames; an imported manifest is used up once applied
       updateState(prev => ({
         ...prev,
         frames,
+        importedManifest: null,
         processing: false,
         extractionProgress: { current: 0, total: 0 },
         sharpnessProgress: { current: 0, total: 0 } // Clear sharpness progress
@@ -360,31 +439,13 @@ export function useFrameExtraction() {
 
       updateState(prev => ({
         ...prev,
-        error: 'Failed to extract frames',
+        error: error instanceof Error ? error.message : 'Failed to extract frames',
         processing: false,
       }));
     } finally {
       abortControllerRef.current = null;
     }
-  }, [state.videoFile, state.videoMetadata, state.fps, state.format, state.timeRange, state.prefix, state.useOriginalFrameRate, updateState]);
-
-  // Helper functions for selection logic
-  const isFrameSelectedByBatch = (frame: FrameData, frames: FrameData[], batchSize: number, batchBuffer: number): boolean => {
-    const index = frames.indexOf(frame);
-    const batchStart = Math.floor(index / (batchSize + batchBuffer)) * (batchSize + batchBuffer);
-    const batch = frames.slice(batchStart, batchStart + batchSize);
-    
-    // If frame is not in the current batch range, it's not selected
-    if (index < batchStart || index >= batchStart + batchSize) return false;
-    
-    // Find the sharpest frame in this batch
-    const sharpestFrame = batch.reduce((best, current) => 
-      (current.sharpnessScore || 0) > (best.sharpnessScore || 0) ? current : best
-    , batch[0]);
-    
-    // Frame is selected if it's the sharpest in its batch
-    return frame.id === sharpestFrame.id;
-  };
+  }, [state.videoFile, state.videoMetadata, state.fps, state.format, state.formatQuality, state.timeRanges, state.prefix, state.useOriginalFrameRate, state.extractionMode, state.sceneThreshold, state.frameStep, state.timestampList, state.timestampUnit, state.outputTransform, state.sharpnessMetric, state.importedManifest, videoPlayable, updateState]);
 
   const handleToggleFrameSelection = useCallback((frameId: string) => {
     updateState(prev => ({
@@ -438,29 +499,53 @@ export function useFrameExtraction() {
         throw new Error('No frames could be loaded for download');
       }
 
-      // Use smart download which chooses based on mode
-      await downloadFramesSmartZip(framesWithBlobs, {
-        filename: 'selected-frames.zip',
-        batchSize: 200,
-        mode,
-        onProgress: (progress) => {
-          console.log(
-            `[Download] Progress: ${progress.framesProcessed}/${progress.totalFrames} frames, ` +
-            `${(progress.bytesGenerated / 1024 / 1024).toFixed(2)} MB generated`
-          );
-          updateState(prev => ({
-            ...prev,
-            downloadProgress: Math.round((progress.framesProcessed / progress.totalFrames) * 100)
-          }));
-        },
-        onError: (error) => {
-          console.error('[Download] Download error:', error);
-          updateState(prev => ({
-            ...prev,
-            error: `Download failed: ${error.message}`
-          }));
+      const manifest = buildExportManifest(state, selectedFrames);
+
+      if (state.exportPreset !== 'zip') {
+        const projectOptions: ProjectExportOptions = {
+          videoMetadata: state.isImageMode ? null : state.videoMetadata,
+          transform: state.outputTransform,
+          manifest,
+          onProgress: (progress) => {
+            updateState(prev => ({
+              ...prev,
+              downloadProgress: Math.round((progress.framesProcessed / progress.totalFrames) * 100)
+            }));
+          }
+        };
+        const loadedFrames = framesWithBlobs.filter(f => f.blob.size > 0);
+
+        if (state.exportPreset === 'colmap') {
+          await downloadFramesAsColmapProject(loadedFrames, { ...projectOptions, filename: 'colmap-project.zip' });
+        } else {
+          await downloadFramesAsTransformsProject(loadedFrames, { ...projectOptions, filename: 'transforms-project.zip' });
         }
-      });
+      } else {
+        // Use smart download which chooses based on mode
+        await downloadFramesSmartZip(framesWithBlobs, {
+          filename: 'selected-frames.zip',
+          batchSize: 200,
+          mode,
+          manifest,
+          onProgress: (progress) => {
+            console.log(
+              `[Download] Progress: ${progress.framesProcessed}/${progress.totalFrames} frames, ` +
+              `${(progress.bytesGenerated / 1024 / 1024).toFixed(2)} MB generated`
+            );
+            updateState(prev => ({
+              ...prev,
+              downloadProgress: Math.round((progress.framesProcessed / progress.totalFrames) * 100)
+            }));
+          },
+          onError: (error) => {
+            console.error('[Download] Download error:', error);
+            updateState(prev => ({
+              ...prev,
+              error: `Download failed: ${error.message}`
+            }));
+          }
+        });
+      }
 
       console.log('[Download] Download complete');
       updateState(prev => ({
@@ -496,8 +581,8 @@ export function useFrameExtraction() {
       return;
     }
 
-    // For large downloads, show options dialog
-    if (selectedFrames.length >= 1000) {
+    // For large downloads, show options dialog; project exports are always one archive
+    if (selectedFrames.length >= 1000 && state.exportPreset === 'zip') {
       console.log(`[Download] Large download detected (${selectedFrames.length} frames), showing options dialog`);
       updateState(prev => ({
         ...prev,
@@ -531,7 +616,9 @@ export function useFrameExtraction() {
         percentageThreshold: prev.percentageThreshold,
         batchSize: prev.batchSize,
         batchBuffer: prev.batchBuffer,
-        timeRange: [0, 0],
+        sharpnessMetric: prev.sharpnessMetric,
+        exportPreset: prev.exportPreset,
+        timeRanges: [],
       }));
     } catch (error) {
       updateState(prev => ({
@@ -548,7 +635,7 @@ export function useFrameExtraction() {
         // Filter for image files only
         const imageFiles = Array.from(files).filter(file => {
           const extension = file.name.split('.').pop()?.toLowerCase() || '';
-          return ['jpg', 'jpeg', 'png', 'webp', 'gif'].includes(extension);
+          return ['jpg', 'jpeg', 'png', 'webp', 'avif', 'gif'].includes(extension);
         });
 
         if (imageFiles.length === 0) {
@@ -571,72 +658,102 @@ export function useFrameExtraction() {
         }));
 
         const frameMetadata: FrameMetadata[] = [];
+        const motionThumbnails: (GrayscaleImage | undefined)[] = new Array(imageFiles.length);
+        // Kept out of the metadata so they don't get written to IndexedDB with the images
+        const featureSets: (FeatureSet | undefined)[] = new Array(imageFiles.length);
         const BATCH_SIZE = 20; // Process 20 images at a time for better batching efficiency
-
-        for (let i = 0; i < imageFiles.length; i += BATCH_SIZE) {
-          try {
-            const batch = imageFiles.slice(i, i + BATCH_SIZE);
-
-            // Process each image in the batch to calculate sharpness
-            const batchMetadata = await Promise.all(
-              batch.map(async (file, batchIndex) => {
-                try {
-                  // Create frame ID that preserves the original order
-                  const globalIndex = i + batchIndex;
-                  const frameId = `frame-${globalIndex.toString().padStart(5, '0')}`;
-
-                  // Calculate sharpness score first (requires less memory)
-                  const sharpnessScore = await calculateSharpnessScore(file);
-
-                  // Create metadata
-                  const metadata: FrameMetadata = {
-                    id: frameId,
-                    name: file.name,
-                    format: file.name.split('.').pop() || 'jpeg',
-                    timestamp: globalIndex * 1000, // Use consistent timestamp based on global index
-                    sharpnessScore,
-                    selected: false,
-                  };
-
-                  return metadata;
-                } catch (error) {
-                  throw error;
+        const pool = new SharpnessWorkerPool();
+        const manifest = state.importedManifest;
+        const findManifestFrame = manifest ? createManifestLookup(manifest) : null;
+        const restoreAnalysis = manifest ? canRestoreAnalysis(manifest) : false;
+
+        try {
+          for (let i = 0; i < imageFiles.length; i += BATCH_SIZE) {
+            try {
+              const batch = imageFiles.slice(i, i + BATCH_SIZE);
+
+              // Process each image in the batch to calculate sharpness
+              const batchMetadata = await Promise.all(
+                batch.map(async (file, batchIndex) => {
+                  try {
+                    // Create frame ID that preserves the original order
+                    const globalIndex = i + batchIndex;
+                    const frameId = `frame-${globalIndex.toString().padStart(5, '0')}`;
+
+                    const timestamp = globalIndex * 1000; // Use consistent timestamp based on global index
+                    const manifestFrame = findManifestFrame?.({ name: file.name, timestamp }, globalIndex);
+
+                    // Analyze sharpness and blur first (requires less memory), unless the manifest has it
+                    const restored = manifestFrame && restoreAnalysis ? getManifestAnalysis(manifestFrame) : null;
+                    let analysis: Partial<FrameMetadata>;
+                    if (restored) {
+                      analysis = restored;
+                    } else {
+                      const { motionThumbnail, features, ...measured } = await pool.analyze(file, state.sharpnessMetric);
+                      motionThumbnails[globalIndex] = motionThumbnail;
+                      featureSets[globalIndex] = features;
+                      analysis = measured;
+                    }
+
+                    // Create metadata
+                    const metadata: FrameMetadata = {
+                      id: frameId,
+                      name: file.name,
+                      format: file.name.split('.').pop() || 'jpeg',
+                      timestamp,
+                      sharpnessMetric: state.sharpnessMetric,
+                      ...analysis,
+                      selected: manifestFrame?.selection === 'manual',
+                    };
+
+                    return metadata;
+                  } catch (error) {
+                    throw error;
+                  }
+                })
+              );
+
+              // Store all frames in batch using IndexedDB transaction (non-blocking thumbnail generation)
+              const batchFrameData = batchMetadata.map((metadata, index) => ({
+                ...metadata,
+                blob: batch[index],
+                data: new Uint8Array(0), // Empty array - data generated on demand
+                storedAt: Date.now(),
+              }));
+
+              await frameStorage.storeFrameBatch(batchFrameData);
+              frameMetadata.push(...batchMetadata);
+
+              // Update progress only (don't update frames yet to defer chart rendering)
+              updateState(prev => ({
+                ...prev,
+                extractionProgress: {
+                  current: Math.min(i + BATCH_SIZE, imageFiles.length),
+                  total: imageFiles.length,
+                  startTime: prev.extractionProgress.startTime || Date.now(),
                 }
-              })
-            );
-
-            // Store all frames in batch using IndexedDB transaction (non-blocking thumbnail generation)
-            const batchFrameData = batchMetadata.map((metadata, index) => ({
-              ...metadata,
-              blob: batch[index],
-              data: new Uint8Array(0), // Empty array - data generated on demand
-              storedAt: Date.now(),
-            }));
-
-            await frameStorage.storeFrameBatch(batchFrameData);
-            frameMetadata.push(...batchMetadata);
-
-            // Update progress only (don't update frames yet to defer chart rendering)
-            updateState(prev => ({
-              ...prev,
-              extractionProgress: {
-                current: Math.min(i + BATCH_SIZE, imageFiles.length),
-                total: imageFiles.length,
-                startTime: prev.extractionProgress.startTime || Date.now(),
+              }));
+            } catch (error) {
+              if (error instanceof Error && error.message.includes('memory')) {
+                throw new Error(`Browser memory limit reached after processing ${frameMetadata.length} images. Please reduce the number of images or their size.`);
               }
-            }));
-          } catch (error) {
-            if (error instanceof Error && error.message.includes('memory')) {
-              throw new Error(`Browser memory limit reached after processing ${frameMetadata.length} images. Please reduce the number of images or their size.`);
+              throw error;
             }
-            throw error;
           }
+        } finally {
+          pool.terminate();
         }
 
+        // Sort by timestamp to maintain order; timestamps follow the global index, so thumbnails line up
+        frameMetadata.sort((a, b) => a.timestamp - b.timestamp);
+        const frames: FrameData[] = withDuplicateGroups(await withMotionMagnitudes(frameMetadata, motionThumbnails))
+          .map((frame, index) => ({ ...frame, features: featureSets[index] }));
+
         // Update state with all frames at once after processing completes
         updateState(prev => ({
           ...prev,
-          frames: frameMetadata.sort((a, b) => a.timestamp - b.timestamp), // Sort by timestamp to maintain order
+          frames,
+          importedManifest: null,
           loadingMetadata: false,
           extractionProgress: { current: 0, total: 0 },
         }));
@@ -649,7 +766,45 @@ export function useFrameExtraction() {
           extractionProgress: { current: 0, total: 0 },
         }));
       }
-    }, [updateState]);
+    }, [state.sharpnessMetric, state.importedManifest, updateState]);
+
+  const handleManifestImport = useCallback(async (file: File) => {
+    try {
+      const manifest = parseExportManifest(await file.text());
+      // Computed here rather than in the updater, so a bad manifest is reported instead of thrown from a render
+      const settings = getManifestSettings(manifest, state.formatQuality, state.videoMetadata?.duration);
+      const videoChangePending = videoChangePendingRef.current;
+      // As on video load, a file WebCodecs can't decode stays on interval extraction
+      if (decoderSupport?.supported === false && !videoChangePending) {
+        settings.extractionMode = 'interval';
+      }
+
+      updateState(prev => {
+        // Frames already loaded get the manual picks right away; their analysis is already done
+        if (prev.frames.length > 0 && !videoChangePending) {
+          const findManifestFrame = createManifestLookup(manifest);
+          return {
+            ...prev,
+            ...settings,
+            // The loaded scores were computed with the current metric, so it stays
+            sharpnessMetric: prev.sharpnessMetric,
+            error: null,
+            frames: prev.frames.map((frame, index) => ({
+              ...frame,
+              selected: findManifestFrame(frame, index)?.selection === 'manual',
+            })),
+          };
+        }
+
+        return { ...prev, ...settings, error: null, importedManifest: manifest };
+      });
+    } catch (error) {
+      updateState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to read manifest',
+      }));
+    }
+  }, [state.formatQuality, state.videoMetadata, decoderSupport, updateState]);
 
   const handleSelectAll = useCallback(() => {
     updateState(prev => {
@@ -679,7 +834,7 @@ export function useFrameExtraction() {
     });
   }, [updateState]);
 
-  const handleSelectionModeChange = useCallback((mode: 'batched' | 'manual' | 'best-n' | 'top-percent') => {
+  const handleSelectionModeChange = useCallback((mode: SelectionMode) => {
     updateState(prev => ({
       ...prev,
       selectionMode: mode,
@@ -691,33 +846,11 @@ export function useFrameExtraction() {
   }, [updateState]);
 
   const handleBatchSizeChange = useCallback((size: number) => {
-    updateState(prev => ({
-      ...prev,
-      batchSize: size,
-      frames: prev.frames.map(f => {
-        // Preserve manual selections, reset automatic ones
-        const isManuallySelected = f.selected && !isFrameSelectedByBatch(f, prev.frames, prev.batchSize, prev.batchBuffer);
-        return { 
-          ...f, 
-          selected: isManuallySelected || isFrameSelectedByBatch(f, prev.frames, size, prev.batchBuffer)
-        };
-      })
-    }));
+    updateState(prev => ({ ...prev, batchSize: size }));
   }, [updateState]);
 
   const handleBatchBufferChange = useCallback((buffer: number) => {
-    updateState(prev => ({
-      ...prev,
-      batchBuffer: buffer,
-      frames: prev.frames.map(f => {
-        // Preserve manual selections, reset automatic ones
-        const isManuallySelected = f.selected && !isFrameSelectedByBatch(f, prev.frames, prev.batchSize, prev.batchBuffer);
-        return { 
-          ...f, 
-          selected: isManuallySelected || isFrameSelectedByBatch(f, prev.frames, prev.batchSize, buffer)
-        };
-      })
-    }));
+    updateState(prev => ({ ...prev, batchBuffer: buffer }));
   }, [updateState]);
 
   return {
@@ -725,11 +858,13 @@ export function useFrameExtraction() {
     setState: updateState,
     extractionMethod,
     fallbackReason,
+    decoderSupport,
     performanceMetrics,
     handlers: {
       handleVideoChange,
       handleVideoReplace,
       handleImageDirectoryChange,
+      handleManifestImport,
       handleExtractFrames,
       handleCancel,
       handleDownload,
@@ -745,42 +880,32 @@ export function useFrameExtraction() {
   };
 }
 
-function checkCodecBrowserCompatibility(codec: string): string | null {
-  const codecLower = codec.toLowerCase();
+// Marks runs of near-identical consecutive frames; expects frames in temporal order
+function withDuplicateGroups<T extends FrameMetadata>(frames: T[]): T[] {
+  const groups = findDuplicateGroups(frames.map(frame => frame.perceptualHash));
+  return frames.map((frame, index) => ({ ...frame, duplicateGroup: groups[index] }));
+}
 
-  // Get browser information
-  const userAgent = typeof navigator !== 'undefined' ? navigator.userAgent : '';
-  const isFirefox = userAgent.includes('Firefox');
-  const isChrome = userAgent.includes('Chrome') && !userAgent.includes('Edg');
-  const isSafari = userAgent.includes('Safari') && !userAgent.includes('Chrome');
+const MOTION_YIELD_INTERVAL = 200;
 
-  // Check for HEVC/H.265
-  if (codecLower.includes('hevc') || codecLower.includes('h.265') || codecLower.includes('h265')) {
-    if (isFirefox) {
-      return 'Firefox does not support H.265/HEVC codec. Please use Chrome or convert your video to H.264 format.';
-    }
-    if (isChrome) {
-      return 'Chrome has limited H.265/HEVC support on some systems. If this fails, please convert your video to H.264 format or use Safari.';
-    }
-  }
+// Chains motion estimates between neighbouring frames; yields now and then so long videos don't freeze the page
+async function withMotionMagnitudes<T extends FrameMetadata>(
+  frames: T[],
+  thumbnails: (GrayscaleImage | undefined)[]
+): Promise<T[]> {
+  const result: T[] = [];
 
-  // Check for AV1
-  if (codecLower.includes('av1')) {
-    if (isFirefox) {
-      const match = userAgent.match(/Firefox\/(\d+)/);
-      const version = parseInt(match?.[1] || '0');
-      if (version < 133) {
-        return 'Your Firefox version does not support AV1 codec (requires Firefox 133+). Please update your browser or convert the video to H.264.';
-      }
-    }
-  }
+  for (let i = 0; i < frames.length; i++) {
+    const previous = thumbnails[i - 1];
+    const current = thumbnails[i];
+    // Frames restored from a manifest have no thumbnail but keep their recorded motion
+    const motionMagnitude = i === 0 ? 0 : previous && current ? estimateMotion(previous, current) : frames[i].motionMagnitude;
+    result.push({ ...frames[i], motionMagnitude });
 
-  // Check for VP9
-  if (codecLower.includes('vp9')) {
-    if (isSafari) {
-      return 'Safari does not support VP9 codec. Please use Chrome/Firefox or convert your video to H.264 format.';
+    if (i > 0 && i % MOTION_YIELD_INTERVAL === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
     }
   }
 
-  return null;
+  return result;
 }
@@ -1,16 +1,26 @@
-import { frameStorage } from './frameStorage';
+import { type ImageFormat } from './imageUtils';
+import { storeExtractedFrame, type ExtractedFrame } from './mediaBunnyExtraction';
+import { applyContainerRotation, DEFAULT_OUTPUT_TRANSFORM, type OutputTransform } from './outputTransform';
+import type { VideoMetadata } from './videoUtils';
+
+// A seek that never completes means the browser parsed the file but can't decode it
+const SEEK_TIMEOUT_MS = 10000;
 
 export async function extractFramesInBrowser(
   videoFile: File,
   fps: number,
-  format: 'jpeg' | 'png',
+  format: ImageFormat,
+  quality: number,
   timeRange: [number, number],
   onProgress: (current: number, total: number) => void,
   signal?: AbortSignal,
   prefix: string = '',
   useOriginalFrameRate: boolean = false,
-  originalFps?: number
-): Promise<Array<{ id: string; blob: Blob; name: string; format: string; timestamp: number }>> {
+  originalFps?: number,
+  transform: OutputTransform = DEFAULT_OUTPUT_TRANSFORM,
+  orientation?: Pick<VideoMetadata, 'width' | 'height' | 'rotation'>,
+  firstIndex: number = 0
+): Promise<ExtractedFrame[]> {
   const video = document.createElement('video');
   const canvas = document.createElement('canvas');
   const ctx = canvas.getContext('2d')!;
@@ -26,10 +36,23 @@ export async function extractFramesInBrowser(
       video.src = videoUrl;
     });
 
+    // Some containers load with only their audio when the browser lacks the video codec
+    if (video.videoWidth === 0) {
+      throw new Error('Failed to decode video track');
+    }
+
     // Set video dimensions
     canvas.width = video.videoWidth;
     canvas.height = video.videoHeight;
 
+    // Browsers normally present <video> upright already. One that reports the coded size for a
+    // quarter-turn rotation ignores the metadata, so the frames are turned here instead.
+    // (A half turn doesn't change the size and can't be detected this way.)
+    const rotation = orientation && orientation.rotation !== 0 &&
+      (video.videoWidth > video.videoHeight) !== (orientation.width > orientation.height)
+      ? orientation.rotation
+      : 0;
+
     // Calculate frame extraction points
     const [startTime, endTime] = timeRange;
     const duration = Math.min(endTime - startTime, video.duration - startTime);
@@ -37,17 +60,24 @@ export async function extractFramesInBrowser(
     const totalFrames = Math.floor(duration * fps);
     let currentFrame = 0;
     let lastSuccessfulTime = -1;
-
-    // Clear existing frames
-    await frameStorage.clear();
+    const frames: ExtractedFrame[] = [];
 
     // Helper function to attempt frame extraction with retries
     const attemptFrameExtraction = async (time: number, maxRetries = 3): Promise<boolean> => {
       for (let attempt = 0; attempt < maxRetries; attempt++) {
-        // Seek to time
-        video.currentTime = time;
-        await new Promise<void>((resolve) => {
-          video.onseeked = () => resolve();
+        // Seek to time; a decode error or a stalled seek fails the whole extraction, so the
+        // caller can fall back to FFmpeg
+        await new Promise<void>((resolve, reject) => {
+          const timeout = setTimeout(() => reject(new Error(`Seek to ${time.toFixed(2)}s timed out`)), SEEK_TIMEOUT_MS);
+          video.onseeked = () => {
+            clearTimeout(timeout);
+            resolve();
+          };
+          video.onerror = () => {
+            clearTimeout(timeout);
+            reject(new Error(video.error?.message || 'Failed to decode video'));
+          };
+          video.currentTime = time;
         });
 
         // If we got a new frame, extract it
@@ -55,17 +85,9 @@ export async function extractFramesInBrowser(
           // Draw frame to canvas
           ctx.drawImage(video, 0, 0);
 
-          // Convert to blob
-          const blob = await new Promise<Blob>((resolve, reject) => {
-            canvas.toBlob(
-              (blob) => {
-                if (blob) resolve(blob);
-                else reject(new Error('Failed to create blob'));
-              },
-              format === 'jpeg' ? 'image/jpeg' : 'image/png',
-              0.95
-            );
-          });
+          const upright = rotation === 0
+            ? canvas
+            : applyContainerRotation(canvas, canvas.width, canvas.height, rotation);
 
           // Store frame
           let frameNumber: number;
@@ -74,20 +96,10 @@ export async function extractFramesInBrowser(
             frameNumber = Math.round(time * originalFps);
           } else {
             // Use sequential numbering
-            frameNumber = currentFrame;
+            frameNumber = firstIndex + currentFrame;
           }
           
-          const frameId = `${prefix || 'frame'}_${frameNumber.toString().padStart(5, '0')}`;
-          const fileName = `${frameId}.${format}`;
-          await frameStorage.storeFrame({
-            id: frameId,
-            blob,
-            name: fileName,
-            format,
-            timestamp: time,
-            data: new Uint8Array(0), // Empty array - data generated on demand
-            storedAt: Date.now()
-          });
+          frames.push(await storeExtractedFrame(upright, frameNumber, time, format, quality, prefix, transform));
 
           lastSuccessfulTime = video.currentTime;
           return true;
@@ -115,25 +127,12 @@ export async function extractFramesInBrowser(
       onProgress(currentFrame, totalFrames);
     }
 
-    // Get existing frames
-    let existingFrames: Array<{ id: string; blob: Blob; name: string; format: string; timestamp: number }> = [];
-    try {
-      const metadata = await frameStorage.getAllMetadata();
-      existingFrames = await Promise.all(
-        metadata.map(async (frame) => {
-          const blob = await frameStorage.getFrameBlob(frame.id);
-          return {
-            ...frame,
-            blob: blob!
-          };
-        })
-      );
-    } catch {
-      // Error getting existing frames
+    if (frames.length === 0) {
+      throw new Error('No frames were successfully extracted');
     }
 
-    // Return stored frames
-    return existingFrames;
+    // Only this call's frames - earlier ranges of the same extraction are already in storage
+    return frames;
   } finally {
     // Clean up
     URL.revokeObjectURL(videoUrl);
@@ -120,34 +120,6 @@ function getBrowserName(browser: BrowserInfo): string {
   return 'Unknown';
 }
 
-export async function canUseMediaBunny(videoFile: File): Promise<boolean> {
-  const support = getBrowserSupport();
-
-  if (!support.mediaBunny) {
-    return false;
-  }
-
-  try {
-    // Use the entire file for codec detection - chunks can miss metadata
-    const { Input, BlobSource, ALL_FORMATS } = await import('mediabunny');
-
-    const input = new Input({
-      formats: ALL_FORMATS,
-      source: new BlobSource(videoFile)
-    });
-
-    const videoTrack = await input.getPrimaryVideoTrack();
-
-    if (!videoTrack) {
-      return false;
-    }
-
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 export function getExtractionMethodInfo(useMediaBunny: boolean) {
   return {
     method: useMediaBunny ? 'MediaBunny' : 'Canvas',
@@ -1,152 +1,88 @@
-export interface CodecInfo {
-  format: string;
-  codec: string;
-  isSupported: boolean;
-  webCodecsSupported: boolean;
+import { Input, BlobSource, ALL_FORMATS } from 'mediabunny';
+import { describeCodecString } from './videoProbe';
+
+export interface DecoderSupport {
+  supported: boolean;
+  // How the browser would decode it; null when it can't
+  acceleration: 'hardware' | 'software' | null;
+  // e.g. "HEVC Main 10, 10-bit (hvc1.2.4.L153.B0)"
+  description: string;
+  // Why WebCodecs can't decode it
   reason?: string;
 }
 
-export async function detectVideoCodec(videoFile: File): Promise<CodecInfo> {
-  const defaultInfo: CodecInfo = {
-    format: 'unknown',
-    codec: 'unknown',
-    isSupported: false,
-    webCodecsSupported: false,
-    reason: 'Unable to detect codec'
-  };
+const CODEC_NAMES: Record<string, string> = {
+  avc: 'H.264',
+  hevc: 'HEVC',
+  vp8: 'VP8',
+  vp9: 'VP9',
+  av1: 'AV1',
+};
+
+async function isConfigSupported(config: VideoDecoderConfig): Promise<boolean> {
+  try {
+    const { supported } = await VideoDecoder.isConfigSupported(config);
+    return supported === true;
+  } catch {
+    // TypeError for configs the browser can't even parse
+    return false;
+  }
+}
+
+/**
+ * Asks the browser's WebCodecs decoders whether they accept the video track's actual decoder
+ * config, as read from the container, first with hardware acceleration and then without.
+ */
+export async function checkDecoderSupport(videoFile: File): Promise<DecoderSupport> {
+  let description = 'Video';
 
   try {
-    // Create a video element to load the file
-    const video = document.createElement('video');
-    const url = URL.createObjectURL(videoFile);
-    
-    return new Promise((resolve) => {
-      video.onloadedmetadata = () => {
-        URL.revokeObjectURL(url);
-        
-        // Try to detect codec from MIME type or file extension
-        const extension = videoFile.name.split('.').pop()?.toLowerCase() || '';
-        const mimeType = videoFile.type;
-        
-        let codec = 'unknown';
-        const format = extension;
-        let webCodecsSupported = false;
-        let reason = '';
+    const input = new Input({
+      formats: ALL_FORMATS,
+      source: new BlobSource(videoFile)
+    });
 
-        // Basic codec detection based on file properties
-        if (mimeType.includes('av01') || mimeType.includes('AV1')) {
-          codec = 'AV1';
-          webCodecsSupported = checkAV1Support();
-          if (!webCodecsSupported) {
-            reason = 'AV1 codec has limited WebCodecs support in current browser';
-          }
-        } else if (mimeType.includes('avc1') || mimeType.includes('h264')) {
-          codec = 'H.264';
-          webCodecsSupported = true;
-        } else if (mimeType.includes('hev1') || mimeType.includes('h265')) {
-          codec = 'H.265/HEVC';
-          webCodecsSupported = checkHEVCSupport();
-          if (!webCodecsSupported) {
-            reason = 'H.265/HEVC support varies by browser and platform';
-          }
-        } else if (mimeType.includes('vp8')) {
-          codec = 'VP8';
-          webCodecsSupported = true;
-        } else if (mimeType.includes('vp9')) {
-          codec = 'VP9';
-          webCodecsSupported = true;
-        } else {
-          // Try to infer from container format
-          switch (extension) {
-            case 'mp4':
-            case 'm4v':
-              codec = 'H.264 (assumed)';
-              webCodecsSupported = true;
-              break;
-            case 'webm':
-              codec = 'VP8/VP9 (assumed)';
-              webCodecsSupported = true;
-              break;
-            case 'avi':
-              codec = 'Various (container)';
-              webCodecsSupported = false;
-              reason = 'AVI container may contain unsupported codecs';
-              break;
-            case 'mov':
-              codec = 'H.264 (assumed)';
-              webCodecsSupported = true;
-              break;
-            default:
-              reason = `Unknown format: ${extension}`;
-          }
-        }
+    const videoTrack = await input.getPrimaryVideoTrack();
+    if (!videoTrack) {
+      return { supported: false, acceleration: null, description, reason: 'No video track found' };
+    }
 
-        resolve({
-          format,
-          codec,
-          isSupported: webCodecsSupported,
-          webCodecsSupported,
-          reason
-        });
-      };
+    const codecString = await videoTrack.getCodecParameterString();
+    const { profile, bitDepth } = codecString ? describeCodecString(codecString) : { profile: null, bitDepth: null };
+    const name = videoTrack.codec ? CODEC_NAMES[videoTrack.codec] ?? videoTrack.codec : 'Unknown codec';
+    description = [name, profile].filter(Boolean).join(' ') +
+      (bitDepth ? `, ${bitDepth}-bit` : '') +
+      (codecString ? ` (${codecString})` : '');
 
-      video.onerror = () => {
-        URL.revokeObjectURL(url);
-        resolve({
-          ...defaultInfo,
-          reason: 'Failed to load video file'
-        });
-      };
+    if (typeof VideoDecoder === 'undefined') {
+      return { supported: false, acceleration: null, description, reason: 'WebCodecs API not supported' };
+    }
 
-      video.src = url;
-    });
+    // Null when MediaBunny knows no WebCodecs equivalent for the codec, e.g. MPEG-4 Part 2
+    const config = await videoTrack.getDecoderConfig();
+    if (!config) {
+      return { supported: false, acceleration: null, description, reason: `${description} has no WebCodecs decoder` };
+    }
+
+    if (await isConfigSupported({ ...config, hardwareAcceleration: 'prefer-hardware' })) {
+      return { supported: true, acceleration: 'hardware', description };
+    }
+    if (await isConfigSupported({ ...config, hardwareAcceleration: 'no-preference' })) {
+      return { supported: true, acceleration: 'software', description };
+    }
+
+    return {
+      supported: false,
+      acceleration: null,
+      description,
+      reason: `${description} is not supported by this browser's decoders`
+    };
   } catch (error) {
     return {
-      ...defaultInfo,
-      reason: `Detection error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      supported: false,
+      acceleration: null,
+      description,
+      reason: `Could not read the container: ${error instanceof Error ? error.message.slice(0, 60) : 'Unknown error'}`
     };
   }
 }
-
-function checkAV1Support(): boolean {
-  if (typeof window === 'undefined' || !('VideoDecoder' in window)) {
-    return false;
-  }
-  
-  // AV1 support is limited and varies by browser
-  const userAgent = navigator.userAgent;
-  
-  // Chrome/Edge have better AV1 support
-  if (userAgent.includes('Chrome') || userAgent.includes('Edg')) {
-    const match = userAgent.match(/Chrome\/(\d+)|Edg\/(\d+)/);
-    const version = parseInt(match?.[1] || match?.[2] || '0');
-    return version >= 110; // AV1 support improved significantly in these versions
-  }
-  
-  // Firefox has limited AV1 support
-  if (userAgent.includes('Firefox')) {
-    const match = userAgent.match(/Firefox\/(\d+)/);
-    const version = parseInt(match?.[1] || '0');
-    return version >= 133;
-  }
-  
-  // Safari has very limited AV1 support
-  return false;
-}
-
-function checkHEVCSupport(): boolean {
-  if (typeof window === 'undefined' || !('VideoDecoder' in window)) {
-    return false;
-  }
-  
-  // HEVC support is mainly on Safari/iOS and some Chrome versions
-  const userAgent = navigator.userAgent;
-  
-  // Safari/iOS generally support HEVC
-  if (userAgent.includes('Safari') && !userAgent.includes('Chrome')) {
-    return true;
-  }
-  
-  // Chrome has limited HEVC support
-  return false;
-}
\ No newline at end of file
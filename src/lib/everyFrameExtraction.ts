@@ -0,0 +1,78 @@
+import { Input, BlobSource, ALL_FORMATS, CanvasSink } from 'mediabunny';
+import { type ImageFormat } from './imageUtils';
+import { DEFAULT_OUTPUT_TRANSFORM, type OutputTransform } from './outputTransform';
+import { storeExtractedFrame, type ExtractedFrame } from './mediaBunnyExtraction';
+
+/**
+ * Walks the decoded frames of the time range in presentation order and keeps every `step`-th
+ * one, stamped with its real presentation timestamp. Unlike sampling at `i / fps`, this neither
+ * repeats nor skips frames on variable-frame-rate footage.
+ */
+export async function extractEveryFrame(
+  videoFile: File,
+  format: ImageFormat,
+  quality: number,
+  timeRange: [number, number],
+  step: number,
+  onProgress: (current: number, total: number) => void,
+  signal?: AbortSignal,
+  prefix: string = '',
+  transform: OutputTransform = DEFAULT_OUTPUT_TRANSFORM,
+  firstIndex: number = 0
+): Promise<ExtractedFrame[]> {
+  const input = new Input({
+    formats: ALL_FORMATS,
+    source: new BlobSource(videoFile)
+  });
+
+  try {
+    const videoTrack = await input.getPrimaryVideoTrack();
+    if (!videoTrack) {
+      throw new Error('No video track found in video file');
+    }
+
+    if (signal?.aborted) {
+      throw new DOMException('Frame extraction cancelled', 'AbortError');
+    }
+
+    const [startTime, endTime] = timeRange;
+    const duration = await videoTrack.computeDuration();
+    const extractionEnd = Math.min(endTime, duration);
+
+    if (extractionEnd <= startTime) {
+      throw new Error(`Invalid time range: start=${startTime}s, end=${endTime}s, videoDuration=${duration}s`);
+    }
+
+    // Estimate the number of decoded frames for progress reporting
+    const { averagePacketRate } = await videoTrack.computePacketStats(100);
+    const estimatedTotal = Math.max(1, Math.round((extractionEnd - startTime) * averagePacketRate));
+
+    const sink = new CanvasSink(videoTrack);
+    const keepEvery = Math.max(1, Math.floor(step));
+    const frames: ExtractedFrame[] = [];
+    let decodedFrames = 0;
+
+    for await (const { canvas, timestamp } of sink.canvases(startTime, extractionEnd)) {
+      if (signal?.aborted) {
+        throw new DOMException('Frame extraction cancelled', 'AbortError');
+      }
+
+      if (decodedFrames % keepEvery === 0) {
+        frames.push(await storeExtractedFrame(canvas, firstIndex + frames.length, timestamp, format, quality, prefix, transform));
+      }
+
+      decodedFrames++;
+      onProgress(Math.min(decodedFrames, estimatedTotal), estimatedTotal);
+    }
+
+    if (frames.length === 0) {
+      throw new Error('No frames were successfully extracted');
+    }
+
+    onProgress(estimatedTotal, estimatedTotal);
+
+    return frames;
+  } finally {
+    input.dispose();
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { MANIFEST_VERSION, manifestToCsv, parseExportManifest, type ExportManifest } from '@/lib/exportManifest';
+
+function makeManifest(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    version: MANIFEST_VERSION,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    source: { type: 'video', fileName: 'clip.mp4' },
+    extraction: { mode: 'interval', fps: 10 },
+    selection: { mode: 'best-n', parameters: { bestNCount: 20 } },
+    frames: [
+      { id: 'frame-00000', fileName: 'frame_00000.jpg', sourceFile: 'clip.mp4', frameIndex: 0, timestamp: 0, selection: 'auto' },
+      { id: 'frame-00001', fileName: 'frame_00001.jpg', sourceFile: 'clip.mp4', frameIndex: 1, timestamp: 100, selection: 'none' },
+    ],
+    ...overrides,
+  };
+}
+
+describe('parseExportManifest', () => {
+  it('reads a well-formed manifest', () => {
+    const manifest = parseExportManifest(JSON.stringify(makeManifest()));
+
+    expect(manifest.selection.mode).toBe('best-n');
+    expect(manifest.frames).toHaveLength(2);
+  });
+
+  it('treats missing extraction settings as none', () => {
+    const manifest = parseExportManifest(JSON.stringify(makeManifest({ extraction: undefined })));
+
+    expect(manifest.extraction).toBeNull();
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseExportManifest('frame,timestamp')).toThrow('Manifest is not valid JSON');
+  });
+
+  it('rejects JSON that is not a manifest', () => {
+    expect(() => parseExportManifest('[1, 2, 3]')).toThrow('File is not a frame selection manifest');
+    expect(() => parseExportManifest(JSON.stringify(makeManifest({ frames: {} })))).toThrow('File is not a frame selection manifest');
+  });
+
+  it('rejects other manifest versions', () => {
+    expect(() => parseExportManifest(JSON.stringify(makeManifest({ version: 2 })))).toThrow('Unsupported manifest version: 2');
+  });
+
+  it('rejects unknown source types and selection modes', () => {
+    expect(() => parseExportManifest(JSON.stringify(makeManifest({ source: { type: 'audio', fileName: null } }))))
+      .toThrow('Unknown manifest source type: audio');
+    expect(() => parseExportManifest(JSON.stringify(makeManifest({ selection: { mode: 'random', parameters: {} } }))))
+      .toThrow('Unknown selection mode in manifest: random');
+    expect(() => parseExportManifest(JSON.stringify(makeManifest({ selection: { mode: 'manual' } }))))
+      .toThrow('Manifest selection has no parameters');
+  });
+
+  it('rejects malformed extraction settings', () => {
+    expect(() => parseExportManifest(JSON.stringify(makeManifest({ extraction: 'interval' }))))
+      .toThrow('Manifest extraction settings are malformed');
+  });
+
+  it('names the first malformed frame', () => {
+    const frames = [
+      { sourceFile: 'clip.mp4', frameIndex: 0, timestamp: 0, selection: 'auto' },
+      { sourceFile: 'clip.mp4', frameIndex: '1', timestamp: 100, selection: 'auto' },
+      { sourceFile: 'clip.mp4', frameIndex: 2, timestamp: 200, selection: 'picked' },
+    ];
+
+    expect(() => parseExportManifest(JSON.stringify(makeManifest({ frames })))).toThrow('Manifest frame 2 is malformed');
+  });
+});
+
+describe('manifestToCsv', () => {
+  it('writes a header and one row per frame', () => {
+    const manifest = makeManifest() as unknown as ExportManifest;
+    const [header, ...rows] = manifestToCsv(manifest).trimEnd().split('\n');
+
+    expect(header.split(',').slice(0, 5)).toEqual(['id', 'fileName', 'sourceFile', 'frameIndex', 'timestamp']);
+    expect(rows).toHaveLength(2);
+    expect(rows[1].startsWith('frame-00001,frame_00001.jpg,clip.mp4,1,100,,none,')).toBe(true);
+  });
+
+  it('quotes fields containing delimiters or quotes', () => {
+    const manifest = makeManifest({
+      frames: [{ id: 'a', fileName: 'take "1", wide.jpg', sourceFile: 'x', frameIndex: 0, timestamp: 0, selection: 'auto' }],
+    }) as unknown as ExportManifest;
+
+    expect(manifestToCsv(manifest).split('\n')[1]).toContain('"take ""1"", wide.jpg"');
+  });
+});
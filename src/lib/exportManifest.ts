@@ -0,0 +1,157 @@
+import { type FrameMetadata } from '@/types/frame';
+import { type SelectionMode } from '@/types/frame-extraction';
+
+export const MANIFEST_VERSION = 1;
+
+type FrameMetrics = Pick<FrameMetadata,
+  | 'sharpnessScore'
+  | 'sharpnessMetric'
+  | 'blurAnisotropy'
+  | 'blurDirection'
+  | 'highlightClipping'
+  | 'shadowClipping'
+  | 'meanLuminance'
+  | 'noiseLevel'
+  | 'perceptualHash'
+  | 'duplicateGroup'
+  | 'motionMagnitude'
+>;
+
+export interface ManifestFrame extends FrameMetrics {
+  id: string;
+  // Name inside the archive, and the video or image file the frame came from
+  fileName: string;
+  sourceFile: string;
+  // Position among all analyzed frames
+  frameIndex: number;
+  timestamp: number;
+  // Time range the frame was extracted from
+  rangeLabel?: string;
+  qualityScore?: number;
+  // 'none' frames aren't in the archive; they're listed so the selection can be audited and restored
+  selection: 'auto' | 'manual' | 'none';
+}
+
+export interface ExportManifest {
+  version: typeof MANIFEST_VERSION;
+  createdAt: string;
+  source: {
+    type: 'video' | 'images';
+    fileName: string | null;
+  };
+  // Extraction settings; null for image folders, which aren't extracted
+  extraction: Record<string, unknown> | null;
+  selection: {
+    mode: SelectionMode;
+    parameters: Record<string, unknown>;
+  };
+  frames: ManifestFrame[];
+}
+
+const CSV_COLUMNS: (keyof ManifestFrame)[] = [
+  'id',
+  'fileName',
+  'sourceFile',
+  'frameIndex',
+  'timestamp',
+  'rangeLabel',
+  'selection',
+  'sharpnessScore',
+  'sharpnessMetric',
+  'qualityScore',
+  'blurAnisotropy',
+  'blurDirection',
+  'highlightClipping',
+  'shadowClipping',
+  'meanLuminance',
+  'noiseLevel',
+  'perceptualHash',
+  'duplicateGroup',
+  'motionMagnitude',
+];
+
+function escapeCsvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per frame. Selection mode and parameters don't fit a flat table, so they are
+ * only in manifest.json.
+ */
+export function manifestToCsv(manifest: ExportManifest): string {
+  const rows = manifest.frames.map(frame =>
+    CSV_COLUMNS.map(column => escapeCsvField(frame[column])).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+// Keyed by every SelectionMode, so a new mode can't be left out of the check below
+const SELECTION_MODES: Record<SelectionMode, true> = {
+  'batched': true,
+  'manual': true,
+  'best-n': true,
+  'top-percent': true,
+  'motion': true,
+  'overlap': true,
+};
+
+const FRAME_SELECTIONS: Record<ManifestFrame['selection'], true> = { auto: true, manual: true, none: true };
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isKeyOf<T extends string>(record: Record<T, unknown>, value: unknown): value is T {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(record, value);
+}
+
+function isManifestFrame(value: unknown): value is ManifestFrame {
+  return isRecord(value) &&
+    typeof value.sourceFile === 'string' &&
+    Number.isFinite(value.frameIndex) &&
+    Number.isFinite(value.timestamp) &&
+    isKeyOf(FRAME_SELECTIONS, value.selection);
+}
+
+/**
+ * Parses a manifest.json from a previous export. Only the structure needed to restore a
+ * selection is checked here; selection and extraction parameters are type-checked one by one
+ * when they're applied, see getManifestSettings.
+ */
+export function parseExportManifest(text: string): ExportManifest {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(text);
+  } catch {
+    throw new Error('Manifest is not valid JSON');
+  }
+
+  if (!isRecord(manifest) || !Array.isArray(manifest.frames) || !isRecord(manifest.selection) || !isRecord(manifest.source)) {
+    throw new Error('File is not a frame selection manifest');
+  }
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`Unsupported manifest version: ${manifest.version}`);
+  }
+
+  const { source, selection, extraction, frames } = manifest;
+  if (source.type !== 'video' && source.type !== 'images') {
+    throw new Error(`Unknown manifest source type: ${source.type}`);
+  }
+  if (!isKeyOf(SELECTION_MODES, selection.mode)) {
+    throw new Error(`Unknown selection mode in manifest: ${selection.mode}`);
+  }
+  if (!isRecord(selection.parameters)) {
+    throw new Error('Manifest selection has no parameters');
+  }
+  if (extraction !== null && extraction !== undefined && !isRecord(extraction)) {
+    throw new Error('Manifest extraction settings are malformed');
+  }
+  const badFrame = frames.findIndex(frame => !isManifestFrame(frame));
+  if (badFrame !== -1) {
+    throw new Error(`Manifest frame ${badFrame + 1} is malformed`);
+  }
+
+  return { ...manifest, extraction: extraction ?? null } as ExportManifest;
+}
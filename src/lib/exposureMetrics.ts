@@ -0,0 +1,66 @@
+import { type GrayscaleImage } from './sharpnessMetrics';
+
+// Luma levels at or beyond these count as blown out / crushed
+const HIGHLIGHT_CLIP_LEVEL = 250;
+const SHADOW_CLIP_LEVEL = 5;
+
+export interface ExposureMetrics {
+  // Percentage of pixels at or above HIGHLIGHT_CLIP_LEVEL
+  highlightClipping: number;
+  // Percentage of pixels at or below SHADOW_CLIP_LEVEL
+  shadowClipping: number;
+  // Mean luma, 0-255
+  meanLuminance: number;
+  // Estimated standard deviation of sensor noise, in luma levels
+  noiseLevel: number;
+}
+
+/**
+ * Fast noise sigma estimate (Immerkær, 1996): convolves with a mask that cancels
+ * image structure up to second order, leaving mostly noise. Measured on the analysis
+ * image, so downscaling lowers the absolute value - compare frames, not cameras.
+ */
+function estimateNoise(image: GrayscaleImage): number {
+  const { data, width, height } = image;
+  if (width < 3 || height < 3) return 0;
+
+  let sum = 0;
+  for (let y = 1; y < height - 1; y++) {
+    const up = (y - 1) * width;
+    const row = y * width;
+    const down = (y + 1) * width;
+
+    for (let x = 1; x < width - 1; x++) {
+      const response =
+        data[up + x - 1] - 2 * data[up + x] + data[up + x + 1] -
+        2 * data[row + x - 1] + 4 * data[row + x] - 2 * data[row + x + 1] +
+        data[down + x - 1] - 2 * data[down + x] + data[down + x + 1];
+      sum += Math.abs(response);
+    }
+  }
+
+  return Math.sqrt(Math.PI / 2) * sum / (6 * (width - 2) * (height - 2));
+}
+
+export function measureExposure(image: GrayscaleImage): ExposureMetrics {
+  const { data } = image;
+  let highlights = 0;
+  let shadows = 0;
+  let luminanceSum = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    const value = data[i];
+    luminanceSum += value;
+    if (value >= HIGHLIGHT_CLIP_LEVEL) highlights++;
+    else if (value <= SHADOW_CLIP_LEVEL) shadows++;
+  }
+
+  const pixelCount = Math.max(1, data.length);
+
+  return {
+    highlightClipping: (highlights / pixelCount) * 100,
+    shadowClipping: (shadows / pixelCount) * 100,
+    meanLuminance: luminanceSum / pixelCount,
+    noiseLevel: estimateNoise(image),
+  };
+}
@@ -0,0 +1,104 @@
+import { extractWithMediaBunny, type ExtractedFrame } from './mediaBunnyExtraction';
+import { type ImageFormat } from './imageUtils';
+import { type OutputTransform } from './outputTransform';
+
+export interface ExtractionWorkerRequest {
+  type: 'extract';
+  videoFile: File;
+  fps: number;
+  format: ImageFormat;
+  quality: number;
+  timeRange: [number, number];
+  fallbackDurationSeconds?: number;
+  prefix?: string;
+  transform?: OutputTransform;
+  firstIndex?: number;
+}
+
+export type ExtractionWorkerResponse =
+  | { type: 'progress'; current: number; total: number }
+  | { type: 'done'; frames: ExtractedFrame[] }
+  | { type: 'error'; name: string; message: string };
+
+function supportsExtractionWorker(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+}
+
+/**
+ * Same contract as extractWithMediaBunny, but the decode/encode/store pipeline runs in a
+ * dedicated worker so long extractions don't stall the UI. Falls back to the main thread
+ * on browsers without OffscreenCanvas.
+ */
+export function extractWithMediaBunnyInWorker(
+  videoFile: File,
+  fps: number,
+  format: ImageFormat,
+  quality: number,
+  timeRange: [number, number],
+  onProgress: (current: number, total: number) => void,
+  signal?: AbortSignal,
+  fallbackDurationSeconds?: number,
+  prefix?: string,
+  transform?: OutputTransform,
+  firstIndex?: number
+): Promise<ExtractedFrame[]> {
+  if (!supportsExtractionWorker()) {
+    return extractWithMediaBunny(videoFile, fps, format, quality, timeRange, onProgress, signal, fallbackDurationSeconds, prefix, transform, firstIndex);
+  }
+
+  if (signal?.aborted) {
+    return Promise.reject(new DOMException('Frame extraction cancelled', 'AbortError'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/extraction.worker.ts', import.meta.url));
+
+    const cleanup = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    // Terminating stops the decode loop immediately; frames stored so far are discarded
+    // with the rest of the extraction
+    const handleAbort = () => {
+      cleanup();
+      reject(new DOMException('Frame extraction cancelled', 'AbortError'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<ExtractionWorkerResponse>) => {
+      const message = event.data;
+
+      if (message.type === 'progress') {
+        onProgress(message.current, message.total);
+      } else if (message.type === 'done') {
+        cleanup();
+        resolve(message.frames);
+      } else {
+        cleanup();
+        reject(message.name === 'AbortError'
+          ? new DOMException(message.message, 'AbortError')
+          : new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Extraction worker failed'));
+    };
+
+    worker.postMessage({
+      type: 'extract',
+      videoFile,
+      fps,
+      format,
+      quality,
+      timeRange,
+      fallbackDurationSeconds,
+      prefix,
+      transform,
+      firstIndex
+    } satisfies ExtractionWorkerRequest);
+  });
+}
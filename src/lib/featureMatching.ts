@@ -0,0 +1,228 @@
+import { resizeGrayscale, type GrayscaleImage } from './sharpnessMetrics';
+
+// ORB-style keypoints: FAST-9 corners with BRIEF descriptors, without orientation -
+// consecutive video frames rarely rotate enough for it to matter
+
+const FEATURE_WIDTH = 320;
+const MAX_FEATURES = 100;
+const FAST_THRESHOLD = 20;
+// Best corners are picked per cell so features cover the whole frame, not just one textured corner
+const GRID_COLUMNS = 8;
+const GRID_ROWS = 6;
+const PATCH_RADIUS = 15;
+const DESCRIPTOR_BITS = 256;
+const DESCRIPTOR_WORDS = DESCRIPTOR_BITS / 32;
+const MAX_MATCH_DISTANCE = 50;
+const MATCH_RATIO = 0.8;
+
+export interface FeatureSet {
+  count: number;
+  x: Float32Array;
+  y: Float32Array;
+  // DESCRIPTOR_WORDS 32-bit words per feature
+  descriptors: Uint32Array;
+}
+
+// Bresenham circle of radius 3 used by FAST
+const CIRCLE = [
+  [0, -3], [1, -3], [2, -2], [3, -1], [3, 0], [3, 1], [2, 2], [1, 3],
+  [0, 3], [-1, 3], [-2, 2], [-3, 1], [-3, 0], [-3, -1], [-2, -2], [-1, -3],
+];
+
+// Fixed BRIEF sampling pattern from a seeded PRNG, so descriptors are comparable across workers
+const BRIEF_PAIRS: Int8Array = (() => {
+  let seed = 0x2545f491;
+  const random = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  // Gaussian samples (sigma = patch/5, as in the BRIEF paper), clamped to the patch
+  const sample = () => {
+    const gaussian = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    return Math.max(-PATCH_RADIUS, Math.min(PATCH_RADIUS, Math.round(gaussian * (2 * PATCH_RADIUS + 1) / 5)));
+  };
+
+  const pairs = new Int8Array(DESCRIPTOR_BITS * 4);
+  for (let i = 0; i < pairs.length; i++) {
+    pairs[i] = sample();
+  }
+  return pairs;
+})();
+
+function boxBlur(image: GrayscaleImage, radius: number): Float32Array {
+  const { data, width, height } = image;
+  const horizontal = new Float32Array(data.length);
+  const output = new Float32Array(data.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++) {
+        sum += data[y * width + k];
+        count++;
+      }
+      horizontal[y * width + x] = sum / count;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++) {
+        sum += horizontal[k * width + x];
+        count++;
+      }
+      output[y * width + x] = sum / count;
+    }
+  }
+
+  return output;
+}
+
+// FAST-9 corner score: summed contrast of the circle pixels, or 0 if there's no run of 9
+function fastScore(data: Float32Array, width: number, x: number, y: number): number {
+  const center = data[y * width + x];
+  const brighter = center + FAST_THRESHOLD;
+  const darker = center - FAST_THRESHOLD;
+
+  let brightRun = 0;
+  let darkRun = 0;
+  let maxBrightRun = 0;
+  let maxDarkRun = 0;
+  let score = 0;
+
+  // Walk the circle twice so runs can wrap around
+  for (let i = 0; i < CIRCLE.length * 2; i++) {
+    const [dx, dy] = CIRCLE[i % CIRCLE.length];
+    const value = data[(y + dy) * width + x + dx];
+
+    if (value > brighter) {
+      brightRun++;
+      darkRun = 0;
+    } else if (value < darker) {
+      darkRun++;
+      brightRun = 0;
+    } else {
+      brightRun = 0;
+      darkRun = 0;
+    }
+    maxBrightRun = Math.max(maxBrightRun, brightRun);
+    maxDarkRun = Math.max(maxDarkRun, darkRun);
+
+    if (i < CIRCLE.length) {
+      score += Math.max(0, Math.abs(value - center) - FAST_THRESHOLD);
+    }
+  }
+
+  return maxBrightRun >= 9 || maxDarkRun >= 9 ? score : 0;
+}
+
+export function detectFeatures(image: GrayscaleImage): FeatureSet {
+  const small = resizeGrayscale(image, FEATURE_WIDTH);
+  const { data, width, height } = small;
+  const margin = PATCH_RADIUS + 1;
+
+  const cellWidth = Math.max(1, (width - 2 * margin) / GRID_COLUMNS);
+  const cellHeight = Math.max(1, (height - 2 * margin) / GRID_ROWS);
+  const perCell = Math.ceil(MAX_FEATURES / (GRID_COLUMNS * GRID_ROWS));
+  const cells: { x: number; y: number; score: number }[][] =
+    Array.from({ length: GRID_COLUMNS * GRID_ROWS }, () => []);
+
+  for (let y = margin; y < height - margin; y++) {
+    for (let x = margin; x < width - margin; x++) {
+      const score = fastScore(data, width, x, y);
+      if (score === 0) continue;
+
+      const column = Math.min(GRID_COLUMNS - 1, Math.floor((x - margin) / cellWidth));
+      const row = Math.min(GRID_ROWS - 1, Math.floor((y - margin) / cellHeight));
+      const cell = cells[row * GRID_COLUMNS + column];
+      cell.push({ x, y, score });
+
+      // Keep cells small: drop the weakest once a cell holds plenty of candidates
+      if (cell.length > perCell * 4) {
+        cell.sort((a, b) => b.score - a.score);
+        cell.length = perCell * 2;
+      }
+    }
+  }
+
+  const corners = cells
+    .flatMap(cell => cell.sort((a, b) => b.score - a.score).slice(0, perCell))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_FEATURES);
+
+  // BRIEF compares smoothed intensities so single-pixel noise doesn't flip bits
+  const smoothed = boxBlur(small, 2);
+  const features: FeatureSet = {
+    count: corners.length,
+    x: new Float32Array(corners.length),
+    y: new Float32Array(corners.length),
+    descriptors: new Uint32Array(corners.length * DESCRIPTOR_WORDS),
+  };
+
+  corners.forEach((corner, index) => {
+    // Store positions normalized to 0-1 so they're independent of the analysis size
+    features.x[index] = corner.x / width;
+    features.y[index] = corner.y / height;
+
+    for (let bit = 0; bit < DESCRIPTOR_BITS; bit++) {
+      const p = bit * 4;
+      const a = smoothed[(corner.y + BRIEF_PAIRS[p + 1]) * width + corner.x + BRIEF_PAIRS[p]];
+      const b = smoothed[(corner.y + BRIEF_PAIRS[p + 3]) * width + corner.x + BRIEF_PAIRS[p + 2]];
+      if (a < b) {
+        features.descriptors[index * DESCRIPTOR_WORDS + (bit >> 5)] |= 1 << (bit & 31);
+      }
+    }
+  });
+
+  return features;
+}
+
+function popcount(value: number): number {
+  value -= (value >>> 1) & 0x55555555;
+  value = (value & 0x33333333) + ((value >>> 2) & 0x33333333);
+  return (((value + (value >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+function descriptorDistance(a: Uint32Array, aIndex: number, b: Uint32Array, bIndex: number): number {
+  let distance = 0;
+  for (let w = 0; w < DESCRIPTOR_WORDS; w++) {
+    distance += popcount(a[aIndex * DESCRIPTOR_WORDS + w] ^ b[bIndex * DESCRIPTOR_WORDS + w]);
+  }
+  return distance;
+}
+
+/**
+ * Estimated view overlap between two frames, in percent: the share of keypoints (of the
+ * sparser frame) with a distinctive descriptor match in the other frame (Lowe ratio test).
+ */
+export function estimateOverlap(a: FeatureSet, b: FeatureSet): number {
+  const [query, train] = a.count <= b.count ? [a, b] : [b, a];
+  if (query.count === 0 || train.count < 2) return 0;
+
+  let matches = 0;
+  for (let i = 0; i < query.count; i++) {
+    let best = Infinity;
+    let secondBest = Infinity;
+
+    for (let j = 0; j < train.count; j++) {
+      const distance = descriptorDistance(query.descriptors, i, train.descriptors, j);
+      if (distance < best) {
+        secondBest = best;
+        best = distance;
+      } else if (distance < secondBest) {
+        secondBest = distance;
+      }
+    }
+
+    if (best <= MAX_MATCH_DISTANCE && best < MATCH_RATIO * secondBest) {
+      matches++;
+    }
+  }
+
+  return (matches / query.count) * 100;
+}
@@ -1,11 +1,13 @@
 import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile } from '@ffmpeg/util';
-import { frameStorage } from './frameStorage';
+import { type ImageFormat } from './imageUtils';
+import { DEFAULT_OUTPUT_TRANSFORM, type OutputTransform } from './outputTransform';
+import { storeExtractedFrame, type ExtractedFrame } from './mediaBunnyExtraction';
 import { getVideoMetadata } from './videoUtils';
 
 let ffmpegInstance: FFmpeg | null = null;
 
-// Time-based chunking configuration
+// Frames are decoded in runs of this many seconds, each read back before the next, so FFmpeg's
+// in-memory FS never holds more than one chunk of PNGs
 const CHUNK_DURATION = 2; // 2 seconds per chunk
 
 async function initFfmpeg() {
@@ -30,145 +32,165 @@ export async function getFfmpeg(): Promise<FFmpeg> {
   return ffmpegInstance;
 }
 
-export async function extractFramesFromChunk(
-  ffmpeg: FFmpeg,
-  startTime: number,
-  duration: number,
-  fps: number,
-  format: 'jpeg' | 'png',
-  chunkIndex: number
-): Promise<number> {
-  const args = [
-    // Fast seeking before input
-    '-ss', startTime.toString(),
-    
-    // Input file
-    '-i', 'input.MP4',
-    
-    // Duration after input for accuracy
-    '-t', duration.toString(),
-    
-    // Performance optimization flags
-    '-threads', '0',
-    '-preset', 'ultrafast',
-    
-    // Frame extraction settings
-    '-vf', `fps=${fps}`,
-    
-    // Output format settings
-    '-f', 'image2',
-    '-pix_fmt', 'rgb24',
-    
-    // Output pattern
-    `frame_%d.${format}`
-  ];
-
-  await ffmpeg.exec(args);
-
-  // Get list of generated frames
-  const files = await ffmpeg.listDir('.');
-  const frameFiles = files
-    .map(f => f.name)
-    .filter(name => name.startsWith('frame_') && name.endsWith(`.${format}`))
-    .sort((a, b) => {
-      const numA = parseInt(a.match(/frame_(\d+)/)?.[1] || '0');
-      const numB = parseInt(b.match(/frame_(\d+)/)?.[1] || '0');
-      return numA - numB;
-    });
-
-  // Process each frame
-  let frameCount = 0;
-  for (const filename of frameFiles) {
-    try {
-      const frameData = await ffmpeg.readFile(filename);
-      if (!(frameData instanceof Uint8Array)) {
-        continue;
-      }
+// FFFSType lives in dist/esm/types, which the package's exports map doesn't expose, so it can't be
+// imported. `satisfies` checks the string against the enum's values, so a renamed member fails the
+// type-check instead of failing the mount at runtime.
+type FsType = Parameters<FFmpeg['mount']>[0];
+const WORKERFS = ('WORKERFS' satisfies `${FsType}`) as FsType;
+
+const INPUT_MOUNT_POINT = '/input';
+
+/**
+ * Exposes a file to FFmpeg read-only through WORKERFS, which reads byte ranges from the File
+ * on demand instead of copying the whole video into FFmpeg's in-memory FS. Returns the path
+ * to pass to `-i`.
+ */
+export async function mountInputFile(ffmpeg: FFmpeg, file: File): Promise<string> {
+  const extension = file.name.includes('.') ? file.name.substring(file.name.lastIndexOf('.')) : '.mp4';
+  const name = `input${extension}`;
+
+  // A previous run may have left the mount point behind
+  await unmountInputFile(ffmpeg);
+  await ffmpeg.createDir(INPUT_MOUNT_POINT);
+  await ffmpeg.mount(WORKERFS, { blobs: [{ name, data: file }] }, INPUT_MOUNT_POINT);
+
+  return `${INPUT_MOUNT_POINT}/${name}`;
+}
 
-      const frameNumber = frameCount + (chunkIndex * Math.ceil(fps * CHUNK_DURATION));
-      const frameBlob = new Blob([frameData], { type: `image/${format}` });
-      await frameStorage.storeFrame({
-        id: frameNumber.toString(),
-        blob: frameBlob,
-        name: `frame_${frameNumber}.${format}`,
-        format,
-        timestamp: frameNumber / fps,
-        data: new Uint8Array(frameData),
-        storedAt: Date.now()
-      });
-      frameCount++;
-    } catch {
-      // Error processing frame
-    }
+export async function unmountInputFile(ffmpeg: FFmpeg): Promise<void> {
+  try {
+    await ffmpeg.unmount(INPUT_MOUNT_POINT);
+  } catch {
+    // Not mounted
+  }
+  try {
+    await ffmpeg.deleteDir(INPUT_MOUNT_POINT);
+  } catch {
+    // Doesn't exist
   }
+}
 
-  return frameCount;
+async function listChunkFiles(ffmpeg: FFmpeg): Promise<string[]> {
+  return (await ffmpeg.listDir('.'))
+    .map(node => node.name)
+    .filter(name => /^chunk_\d+\.png$/.test(name))
+    .sort();
 }
 
-export async function extractFrames(
+/**
+ * Software-decodes the time range with FFmpeg.wasm, for codecs neither WebCodecs nor the
+ * <video> element can decode (ProRes, DNxHD, MJPEG, some 10-bit HEVC). FFmpeg writes lossless
+ * PNGs a chunk at a time; each is read back, transformed and encoded to `format` like the
+ * other backends do.
+ */
+export async function extractFramesWithFfmpeg(
   videoFile: File,
   fps: number,
-  format: 'jpeg' | 'png'
-): Promise<number> {
-  let ffmpeg = await getFfmpeg();
-  let totalFrames = 0;
+  format: ImageFormat,
+  quality: number,
+  timeRange: [number, number],
+  onProgress: (current: number, total: number) => void,
+  signal?: AbortSignal,
+  prefix: string = '',
+  transform: OutputTransform = DEFAULT_OUTPUT_TRANSFORM,
+  videoDurationSeconds?: number,
+  firstIndex: number = 0
+): Promise<ExtractedFrame[]> {
+  if (signal?.aborted) {
+    throw new DOMException('Frame extraction cancelled', 'AbortError');
+  }
 
-  try {
-    // Write the full video file
-    const fileData = await fetchFile(videoFile);
-    await ffmpeg.writeFile('input.MP4', fileData);
+  const [startTime, endTime] = timeRange;
+  const extractionDuration = Math.min(endTime, videoDurationSeconds ?? endTime) - startTime;
+  const frameCount = Math.floor(extractionDuration * fps);
 
-    // Get video metadata from videoUtils
-    const metadata = await getVideoMetadata(videoFile);
+  if (frameCount <= 0) {
+    throw new Error(`Invalid time range: start=${startTime}s, end=${endTime}s, videoDuration=${videoDurationSeconds}s, frameCount=${frameCount}`);
+  }
 
-    // Calculate number of chunks based on video duration
-    const chunks = Math.ceil(metadata.duration / CHUNK_DURATION);
+  const ffmpeg = await getFfmpeg();
 
-    // Process each chunk
-    for (let i = 0; i < chunks; i++) {
-      const startTime = i * CHUNK_DURATION;
-      const currentDuration = Math.min(CHUNK_DURATION, metadata.duration - startTime);
+  // A running exec can't be interrupted, only the whole worker terminated
+  const handleAbort = () => {
+    ffmpeg.terminate();
+    ffmpegInstance = null;
+  };
+  signal?.addEventListener('abort', handleAbort);
 
-      try {
-        const frameCount = await extractFramesFromChunk(
-          ffmpeg,
-          startTime,
-          currentDuration,
-          fps,
-          format,
-          i
-        );
-        totalFrames += frameCount;
-
-        // Reinitialize FFmpeg for next chunk
-        await ffmpeg.terminate();
-        ffmpegInstance = null;
+  const framesPerChunk = Math.max(1, Math.round(CHUNK_DURATION * fps));
+  const frames: ExtractedFrame[] = [];
 
-        if (i < chunks - 1) { // Don't reinitialize if this was the last chunk
-          ffmpeg = await getFfmpeg();
-          // Rewrite the video file for the next chunk using fetchFile
-          const fileData = await fetchFile(videoFile);
-          await ffmpeg.writeFile('input.MP4', fileData);
+  try {
+    const inputPath = await mountInputFile(ffmpeg, videoFile);
+    // Leftovers from a run that failed mid-chunk would be read as this run's frames
+    for (const fileName of await listChunkFiles(ffmpeg)) {
+      await ffmpeg.deleteFile(fileName);
+    }
+    onProgress(0, frameCount);
+
+    for (let chunkStart = 0; chunkStart < frameCount; chunkStart += framesPerChunk) {
+      // Seeking before -i restarts the fps filter at the seek point, so output n of the chunk
+      // shows the frame at (chunkStart + n) / fps into the range
+      await ffmpeg.exec([
+        '-ss', (startTime + chunkStart / fps).toFixed(6),
+        '-i', inputPath,
+        '-an',
+        '-vf', `fps=${fps}`,
+        '-frames:v', Math.min(framesPerChunk, frameCount - chunkStart).toString(),
+        '-f', 'image2',
+        'chunk_%05d.png'
+      ]);
+
+      if (signal?.aborted) {
+        throw new DOMException('Frame extraction cancelled', 'AbortError');
+      }
+
+      const chunkFiles = await listChunkFiles(ffmpeg);
+
+      // FFmpeg writes nothing once the seek point is past the last frame
+      if (chunkFiles.length === 0) {
+        break;
+      }
+
+      for (const [offset, fileName] of chunkFiles.entries()) {
+        const data = await ffmpeg.readFile(fileName);
+        await ffmpeg.deleteFile(fileName);
+        if (!(data instanceof Uint8Array)) {
+          continue;
+        }
+
+        const bitmap = await createImageBitmap(new Blob([data], { type: 'image/png' }));
+        const timestamp = startTime + (chunkStart + offset) / fps;
+        try {
+          frames.push(await storeExtractedFrame(bitmap, firstIndex + frames.length, timestamp, format, quality, prefix, transform));
+        } finally {
+          bitmap.close();
         }
-      } catch {
-        // Continue with next chunk even if this one fails
       }
-    }
 
-    return totalFrames;
+      onProgress(Math.min(chunkStart + framesPerChunk, frameCount), frameCount);
+    }
   } catch (error) {
+    // Terminating the worker rejects the pending exec with its own error
+    if (signal?.aborted) {
+      throw new DOMException('Frame extraction cancelled', 'AbortError');
+    }
     throw error;
   } finally {
-    // Ensure FFmpeg is cleaned up even if there was an error
-    if (ffmpegInstance) {
-      try {
-        await ffmpeg.terminate();
-        ffmpegInstance = null;
-      } catch {
-        // Error cleaning up FFmpeg
-      }
+    signal?.removeEventListener('abort', handleAbort);
+    // Cancelling terminated the worker, and its FS with it
+    if (ffmpeg.loaded) {
+      await unmountInputFile(ffmpeg);
     }
   }
+
+  if (frames.length === 0) {
+    throw new Error('No frames were successfully extracted');
+  }
+
+  onProgress(frameCount, frameCount);
+
+  return frames;
 }
 
 export async function resizeVideo(
@@ -180,19 +202,16 @@ export async function resizeVideo(
   try {
     ffmpeg = await getFfmpeg();
 
-    const fileData = await fetchFile(videoFile);
-    const inputFileName = 'input' + Date.now() + '.mp4';
+    const inputPath = await mountInputFile(ffmpeg, videoFile);
     const outputFileName = 'output' + Date.now() + '.mp4';
 
-    await ffmpeg.writeFile(inputFileName, fileData);
-
     // Get video metadata for aspect ratio calculation
     const metadata = await getVideoMetadata(videoFile);
     const aspectRatio = metadata.width / metadata.height;
     const targetHeight = Math.round(targetWidth / aspectRatio);
 
     const args = [
-      '-i', inputFileName,
+      '-i', inputPath,
       '-vf', `scale=${targetWidth}:${targetHeight}`,
       '-preset', 'ultrafast',
       '-c:v', 'libx264',
@@ -209,7 +228,7 @@ export async function resizeVideo(
 
     // Clean up files
     try {
-      await ffmpeg.deleteFile(inputFileName);
+      await unmountInputFile(ffmpeg);
       await ffmpeg.deleteFile(outputFileName);
     } catch {
       // Error cleaning up files
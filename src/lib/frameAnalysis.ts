@@ -0,0 +1,40 @@
+import { loadDownscaledImageData } from './imageUtils';
+import { computeSharpness, estimateMotionBlur, toGrayscale, type GrayscaleImage, type SharpnessMetricId } from './sharpnessMetrics';
+import { measureExposure, type ExposureMetrics } from './exposureMetrics';
+import { differenceHash } from './perceptualHash';
+import { createMotionThumbnail } from './motionEstimation';
+import { detectFeatures, type FeatureSet } from './featureMatching';
+
+// Same working resolution the OpenCV path has always used
+const MAX_WIDTH = 600;
+
+// Per-frame results of one analysis pass
+export interface FrameAnalysis extends ExposureMetrics {
+  sharpnessScore: number;
+  blurAnisotropy: number;
+  blurDirection: number;
+  perceptualHash: string;
+  // Input for inter-frame motion estimation; callers keep it out of frame metadata
+  motionThumbnail: GrayscaleImage;
+  features: FeatureSet;
+}
+
+/**
+ * Runs every per-frame measurement on one image. Pure TS, so the sharpness workers and the
+ * main-thread fallback produce identical results.
+ */
+export async function analyzeFrame(blob: Blob, metric: SharpnessMetricId): Promise<FrameAnalysis> {
+  const imageData = await loadDownscaledImageData(blob, MAX_WIDTH);
+  const gray = toGrayscale(imageData);
+  const motionBlur = estimateMotionBlur(gray);
+
+  return {
+    sharpnessScore: computeSharpness(gray, metric),
+    blurAnisotropy: motionBlur.anisotropy,
+    blurDirection: motionBlur.direction,
+    ...measureExposure(gray),
+    perceptualHash: differenceHash(gray),
+    motionThumbnail: createMotionThumbnail(gray),
+    features: detectFeatures(gray),
+  };
+}
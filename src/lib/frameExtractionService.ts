@@ -1,25 +1,52 @@
-import { canUseMediaBunny, getBrowserSupport } from './browserSupport';
-import { extractWithMediaBunny, type ExtractedFrame } from './mediaBunnyExtraction';
+import { getBrowserSupport } from './browserSupport';
+import { checkDecoderSupport } from './codecDetection';
+import { type ExtractedFrame } from './mediaBunnyExtraction';
+import { extractWithMediaBunnyInWorker } from './extractionWorkerClient';
 import { extractFramesInBrowser } from './browserFrameExtraction';
+import { extractSceneChanges } from './sceneChangeExtraction';
+import { extractKeyframes } from './keyframeExtraction';
+import { extractAtTimestamps } from './timestampExtraction';
+import { extractEveryFrame } from './everyFrameExtraction';
+import { extractFramesWithFfmpeg } from './ffmpegWasm';
+import { frameStorage } from './frameStorage';
+import { type ExtractionMode, type TimeRange } from '@/types/frame-extraction';
+import { IMAGE_FORMATS, type ImageFormat } from './imageUtils';
+import { type OutputTransform } from './outputTransform';
+import type { VideoMetadata } from './videoUtils';
+import type { ListedFrames } from './timestampList';
+
+export type ExtractionMethod = 'MediaBunny' | 'Canvas' | 'Keyframes' | 'FFmpeg';
 
 export interface ExtractionOptions {
   videoFile: File;
   fps: number;
-  format: 'jpeg' | 'png';
-  timeRange: [number, number];
+  format: ImageFormat;
+  // Encoder quality (0-1) for lossy formats; defaults per format
+  quality?: number;
+  timeRanges: TimeRange[];
+  // Seconds or frame numbers; used instead of the time ranges in 'timestamps' mode
+  listedFrames?: ListedFrames;
   onProgress: (current: number, total: number) => void;
-  onMethodDetermined?: (method: 'MediaBunny' | 'Canvas', fallbackReason?: string) => void;
+  onMethodDetermined?: (method: ExtractionMethod, fallbackReason?: string) => void;
   signal?: AbortSignal;
   prefix?: string;
   useOriginalFrameRate?: boolean;
   originalFps?: number;
   forceCanvas?: boolean;
-  videoMetadata?: { duration: number } | null;
+  // False when the <video> element couldn't play the file when it was loaded
+  videoPlayable?: boolean;
+  videoMetadata?: Pick<VideoMetadata, 'duration' | 'width' | 'height' | 'rotation'> | null;
+  mode?: ExtractionMode;
+  sceneThreshold?: number;
+  // Keep every Nth decoded frame in 'every-frame' mode
+  frameStep?: number;
+  // Crop/rotate/resize applied to every frame before encoding, whichever backend decodes it
+  transform?: OutputTransform;
 }
 
 export interface ExtractionResult {
   frames: ExtractedFrame[];
-  method: 'MediaBunny' | 'Canvas';
+  method: ExtractionMethod;
   fallbackReason?: string;
   performance: {
     startTime: number;
@@ -39,22 +66,32 @@ export async function extractFrames(options: ExtractionOptions): Promise<Extract
   const browserSupport = getBrowserSupport();
   
   let useMediaBunny = false;
-  let method: 'MediaBunny' | 'Canvas' = 'Canvas';
+  let method: ExtractionMethod = 'Canvas';
   let fallbackReason: string | undefined;
 
   if (!options.forceCanvas && browserSupport.mediaBunny) {
-    try {
-      useMediaBunny = await canUseMediaBunny(options.videoFile);
-      if (useMediaBunny) {
-        method = 'MediaBunny';
-      } else {
-        fallbackReason = 'Video codec not supported';
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      fallbackReason = `Compatibility check failed: ${errorMessage.slice(0, 60)}`;
-      useMediaBunny = false;
+    const decoderSupport = await checkDecoderSupport(options.videoFile);
+    useMediaBunny = decoderSupport.supported;
+    if (useMediaBunny) {
+      method = 'MediaBunny';
+    } else {
+      fallbackReason = decoderSupport.reason;
+    }
+  }
+
+  // Neither WebCodecs nor the <video> element can decode the file, so interval extraction
+  // goes straight to FFmpeg instead of waiting on seeks that never complete
+  if (!useMediaBunny && options.videoPlayable === false && (options.mode ?? 'interval') === 'interval') {
+    method = 'FFmpeg';
+    fallbackReason = `${fallbackReason ? `${fallbackReason}; ` : ''}<video> element can't play it`;
+  }
+
+  if (options.mode === 'keyframes') {
+    // Keyframe-only decoding talks to WebCodecs directly, so there is no Canvas fallback
+    if (!useMediaBunny) {
+      throw new Error(`Keyframe extraction requires WebCodecs support${fallbackReason ? ` (${fallbackReason})` : ''}`);
     }
+    method = 'Keyframes';
   }
   
   // Notify that method has been determined
@@ -62,82 +99,213 @@ export async function extractFrames(options: ExtractionOptions): Promise<Extract
     options.onMethodDetermined(method, fallbackReason);
   }
 
-  let frames: ExtractedFrame[];
+  const quality = options.quality ?? IMAGE_FORMATS[options.format].defaultQuality;
+  const frames: ExtractedFrame[] = [];
 
-  if (useMediaBunny) {
-    try {
-      frames = await extractWithMediaBunny(
-        options.videoFile,
-        options.fps,
-        options.format,
-        options.timeRange,
-        options.onProgress,
-        options.signal,
-        options.videoMetadata?.duration
-      );
-    } catch (error) {
-      // Add specific error recovery logic
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      const isCodecError = errorMessage.includes('codec') ||
-                          errorMessage.includes('format') ||
-                          errorMessage.includes('VideoDecoder') ||
-                          errorMessage.includes('AV1') ||
-                          errorMessage.includes('av01');
-
-      if (isCodecError) {
-        fallbackReason = 'Codec not supported';
-      } else if (errorMessage.includes('time range')) {
-        fallbackReason = 'Time range error';
-      } else if (errorMessage.includes('yuvj420p') || errorMessage.includes('pixel format')) {
-        fallbackReason = 'Pixel format not supported';
-      } else {
-        fallbackReason = errorMessage.slice(0, 80);
+  if (options.mode === 'timestamps') {
+    // An explicit list of frames replaces the time ranges
+    if (!useMediaBunny) {
+      throw new Error(`Timestamp list extraction requires WebCodecs support${fallbackReason ? ` (${fallbackReason})` : ''}`);
+    }
+
+    const listedFrames = await extractAtTimestamps(
+      options.videoFile,
+      options.listedFrames ?? { unit: 'seconds', values: [] },
+      options.format,
+      quality,
+      options.onProgress,
+      options.signal,
+      options.prefix,
+      options.transform,
+      options.useOriginalFrameRate ? options.originalFps : undefined
+    );
+    frames.push(...listedFrames);
+  } else {
+    if (options.timeRanges.length === 0) {
+      throw new Error('No time range selected');
+    }
+
+    // Without WebCodecs the <video> element decodes; when it can't either, FFmpeg.wasm does
+    const extractWithoutWebCodecs = async (
+      timeRange: [number, number],
+      fps: number,
+      onProgress: (current: number, total: number) => void,
+      firstIndex: number
+    ): Promise<ExtractedFrame[]> => {
+      if (method !== 'FFmpeg') {
+        try {
+          const canvasFrames = await extractFramesInBrowser(
+            options.videoFile,
+            fps,
+            options.format,
+            quality,
+            timeRange,
+            onProgress,
+            options.signal,
+            options.prefix,
+            options.useOriginalFrameRate,
+            options.originalFps,
+            options.transform,
+            options.videoMetadata ?? undefined,
+            firstIndex
+          );
+
+          return canvasFrames.map(frame => ({
+            ...frame,
+            format: options.format
+          }));
+        } catch (error) {
+          if (error instanceof DOMException && error.name === 'AbortError') {
+            throw error;
+          }
+
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          fallbackReason = `${fallbackReason ? `${fallbackReason}; ` : ''}<video> element: ${errorMessage.slice(0, 60)}`;
+          onProgress(0, 0);
+
+          // The remaining ranges go straight to FFmpeg
+          method = 'FFmpeg';
+          if (options.onMethodDetermined) {
+            options.onMethodDetermined(method, fallbackReason);
+          }
+        }
       }
-      
-      // Reset progress before fallback
-      options.onProgress(0, 0);
-      
-      const canvasFrames = await extractFramesInBrowser(
+
+      return extractFramesWithFfmpeg(
         options.videoFile,
-        options.fps,
+        fps,
         options.format,
-        options.timeRange,
-        options.onProgress,
+        quality,
+        timeRange,
+        onProgress,
         options.signal,
         options.prefix,
-        options.useOriginalFrameRate,
-        options.originalFps
+        options.transform,
+        options.videoMetadata?.duration,
+        firstIndex
       );
-      
-      frames = canvasFrames.map(frame => ({
-        ...frame,
-        format: options.format
-      }));
-      method = 'Canvas';
-      useMediaBunny = false;
-      
-      // Notify about fallback during extraction
-      if (options.onMethodDetermined) {
-        options.onMethodDetermined(method, fallbackReason);
+    };
+
+    // Ranges are extracted one after another with continuous frame numbering. How many frames
+    // the later ranges hold isn't known up front, so the reported total grows range by range.
+    for (const range of options.timeRanges) {
+      const firstIndex = frames.length;
+      const timeRange: [number, number] = [range.start, range.end];
+      const fps = range.fps ?? options.fps;
+      const onProgress = (current: number, total: number) => options.onProgress(firstIndex + current, firstIndex + total);
+      let rangeFrames: ExtractedFrame[];
+
+      if (options.mode === 'keyframes') {
+        rangeFrames = await extractKeyframes(
+          options.videoFile,
+          options.format,
+          quality,
+          timeRange,
+          onProgress,
+          options.signal,
+          options.prefix,
+          options.transform,
+          firstIndex
+        );
+      } else if (options.mode === 'scene-change') {
+        // Scene detection needs every decoded frame, which only the WebCodecs path provides
+        if (!useMediaBunny) {
+          throw new Error(`Scene change detection requires WebCodecs support${fallbackReason ? ` (${fallbackReason})` : ''}`);
+        }
+
+        rangeFrames = await extractSceneChanges(
+          options.videoFile,
+          options.format,
+          quality,
+          timeRange,
+          options.sceneThreshold ?? 15,
+          onProgress,
+          options.signal,
+          options.prefix,
+          options.transform,
+          firstIndex
+        );
+      } else if (options.mode === 'every-frame') {
+        // Real sample timestamps come from the decoder, so this needs WebCodecs too
+        if (!useMediaBunny) {
+          throw new Error(`Every-frame extraction requires WebCodecs support${fallbackReason ? ` (${fallbackReason})` : ''}`);
+        }
+
+        rangeFrames = await extractEveryFrame(
+          options.videoFile,
+          options.format,
+          quality,
+          timeRange,
+          options.frameStep ?? 1,
+          onProgress,
+          options.signal,
+          options.prefix,
+          options.transform,
+          firstIndex
+        );
+      } else if (useMediaBunny) {
+        try {
+          rangeFrames = await extractWithMediaBunnyInWorker(
+            options.videoFile,
+            fps,
+            options.format,
+            quality,
+            timeRange,
+            onProgress,
+            options.signal,
+            options.videoMetadata?.duration,
+            options.prefix,
+            options.transform,
+            firstIndex
+          );
+        } catch (error) {
+          // Cancellation is not a failure - don't fall back to Canvas
+          if (error instanceof DOMException && error.name === 'AbortError') {
+            throw error;
+          }
+
+          // Add specific error recovery logic
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          const isCodecError = errorMessage.includes('codec') ||
+                              errorMessage.includes('format') ||
+                              errorMessage.includes('VideoDecoder') ||
+                              errorMessage.includes('AV1') ||
+                              errorMessage.includes('av01');
+
+          if (isCodecError) {
+            fallbackReason = 'Codec not supported';
+          } else if (errorMessage.includes('time range')) {
+            fallbackReason = 'Time range error';
+          } else if (errorMessage.includes('yuvj420p') || errorMessage.includes('pixel format')) {
+            fallbackReason = 'Pixel format not supported';
+          } else {
+            fallbackReason = errorMessage.slice(0, 80);
+          }
+        
+          // Reset progress before fallback
+          onProgress(0, 0);
+
+          // The remaining ranges go straight to Canvas
+          method = 'Canvas';
+          useMediaBunny = false;
+        
+          // Notify about fallback during extraction
+          if (options.onMethodDetermined) {
+            options.onMethodDetermined(method, fallbackReason);
+          }
+
+          rangeFrames = await extractWithoutWebCodecs(timeRange, fps, onProgress, firstIndex);
+        }
+      } else {
+        rangeFrames = await extractWithoutWebCodecs(timeRange, fps, onProgress, firstIndex);
+      }
+
+      // The backends store frames before the range is known, so the label is added afterwards
+      await Promise.all(rangeFrames.map(frame => frameStorage.updateMetadata(frame.id, { rangeLabel: range.label })));
+      for (const frame of rangeFrames) {
+        frames.push({ ...frame, rangeLabel: range.label });
       }
     }
-  } else {
-    const canvasFrames = await extractFramesInBrowser(
-      options.videoFile,
-      options.fps,
-      options.format,
-      options.timeRange,
-      options.onProgress,
-      options.signal,
-      options.prefix,
-      options.useOriginalFrameRate,
-      options.originalFps
-    );
-    
-    frames = canvasFrames.map(frame => ({
-      ...frame,
-      format: options.format
-    }));
   }
 
   const endTime = performance.now();
@@ -163,7 +331,7 @@ export async function extractFrames(options: ExtractionOptions): Promise<Extract
 }
 
 export function getRecommendedExtractionMethod(): {
-  recommended: 'MediaBunny' | 'Canvas';
+  recommended: ExtractionMethod;
   reason: string;
   speedupEstimate?: string;
 } {
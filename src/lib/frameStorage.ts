@@ -30,6 +30,8 @@ class FrameStorage {
   private readonly metadataStore = 'metadata' as const;
   private readonly thumbnailStore = 'thumbnails' as const;
   private version = 3; // Increment version to add thumbnail store
+  // Background thumbnail batches still being written
+  private pendingThumbnails = new Set<Promise<void>>();
 
   async init() {
     if (this.db) {
@@ -113,7 +115,18 @@ class FrameStorage {
       name: frame.name,
       timestamp: frame.timestamp,
       format: frame.format,
+      rangeLabel: frame.rangeLabel,
       sharpnessScore: frame.sharpnessScore,
+      sharpnessMetric: frame.sharpnessMetric,
+      blurAnisotropy: frame.blurAnisotropy,
+      blurDirection: frame.blurDirection,
+      highlightClipping: frame.highlightClipping,
+      shadowClipping: frame.shadowClipping,
+      meanLuminance: frame.meanLuminance,
+      noiseLevel: frame.noiseLevel,
+      perceptualHash: frame.perceptualHash,
+      duplicateGroup: frame.duplicateGroup,
+      motionMagnitude: frame.motionMagnitude,
       selected: frame.selected,
     };
     await this.db!.put(this.metadataStore, metadata);
@@ -140,7 +153,18 @@ class FrameStorage {
           name: frame.name,
           timestamp: frame.timestamp,
           format: frame.format,
+          rangeLabel: frame.rangeLabel,
           sharpnessScore: frame.sharpnessScore,
+          sharpnessMetric: frame.sharpnessMetric,
+          blurAnisotropy: frame.blurAnisotropy,
+          blurDirection: frame.blurDirection,
+          highlightClipping: frame.highlightClipping,
+          shadowClipping: frame.shadowClipping,
+          meanLuminance: frame.meanLuminance,
+          noiseLevel: frame.noiseLevel,
+          perceptualHash: frame.perceptualHash,
+          duplicateGroup: frame.duplicateGroup,
+          motionMagnitude: frame.motionMagnitude,
           selected: frame.selected,
         };
         const metadataPromise = transaction.objectStore(this.metadataStore).put(metadata);
@@ -154,9 +178,12 @@ class FrameStorage {
       
       // Generate thumbnails lazily in background (don't block extraction)
       if (!options.skipThumbnails) {
-        this.generateThumbnailsAsync(frames).catch(() => {
-          // Background thumbnail generation failed
-        });
+        const pending: Promise<void> = this.generateThumbnailsAsync(frames)
+          .catch(() => {
+            // Background thumbnail generation failed
+          })
+          .finally(() => this.pendingThumbnails.delete(pending));
+        this.pendingThumbnails.add(pending);
       }
     } catch (error) {
       transaction.abort();
@@ -164,6 +191,12 @@ class FrameStorage {
     }
   }
   
+  // Resolves once background thumbnail generation has written everything queued so far.
+  // A worker awaits this before it reports done, since terminating it would drop the rest.
+  async whenThumbnailsStored(): Promise<void> {
+    await Promise.all(this.pendingThumbnails);
+  }
+
   // Background thumbnail generation (non-blocking)
   private async generateThumbnailsAsync(frames: StoredFrameData[]) {
     if (!this.db) return;
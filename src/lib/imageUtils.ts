@@ -1,4 +1,9 @@
 export async function createThumbnail(blob: Blob, maxWidth: number = 150): Promise<Blob> {
+  // Workers have no Image element - decode with createImageBitmap and draw offscreen instead
+  if (typeof document === 'undefined') {
+    return createThumbnailOffscreen(blob, maxWidth);
+  }
+
   return new Promise((resolve, reject) => {
     const img = new Image();
     const url = URL.createObjectURL(blob);
@@ -68,4 +73,126 @@ export async function createThumbnail(blob: Blob, maxWidth: number = 150): Promi
 
     img.src = url;
   });
-} 
\ No newline at end of file
+}
+
+async function createThumbnailOffscreen(blob: Blob, maxWidth: number): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob);
+
+  try {
+    const scale = maxWidth / bitmap.width;
+    const width = maxWidth;
+    const height = Math.round(bitmap.height * scale);
+
+    if (!height || height <= 0 || !isFinite(height)) {
+      throw new Error(`Invalid canvas dimensions: ${width}x${height}`);
+    }
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get canvas context');
+    }
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'medium';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    const thumbnail = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.75 });
+    if (thumbnail.size === 0) {
+      throw new Error('Thumbnail blob is empty');
+    }
+
+    return thumbnail;
+  } finally {
+    bitmap.close();
+  }
+}
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+export const IMAGE_FORMATS: Record<ImageFormat, {
+  label: string;
+  mimeType: string;
+  // Lossless formats ignore the quality setting
+  lossy: boolean;
+  defaultQuality: number;
+}> = {
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', lossy: true, defaultQuality: 0.95 },
+  png: { label: 'PNG', mimeType: 'image/png', lossy: false, defaultQuality: 1 },
+  webp: { label: 'WebP', mimeType: 'image/webp', lossy: true, defaultQuality: 0.9 },
+  avif: { label: 'AVIF', mimeType: 'image/avif', lossy: true, defaultQuality: 0.8 },
+};
+
+export async function canvasToBlob(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  format: ImageFormat,
+  quality: number = IMAGE_FORMATS[format].defaultQuality
+): Promise<Blob> {
+  const type = IMAGE_FORMATS[format].mimeType;
+
+  // HTMLCanvasElement does not exist inside workers
+  const blob = typeof HTMLCanvasElement !== 'undefined' && canvas instanceof HTMLCanvasElement
+    ? await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(
+          (blob) => blob ? resolve(blob) : reject(new Error('Failed to create blob')),
+          type,
+          quality
+        );
+      })
+    : await (canvas as OffscreenCanvas).convertToBlob({ type, quality });
+
+  // Browsers silently fall back to PNG for types they can't encode
+  if (blob.type !== type) {
+    throw new Error(`This browser cannot encode ${IMAGE_FORMATS[format].label} images`);
+  }
+
+  return blob;
+}
+
+let supportedFormatsPromise: Promise<ImageFormat[]> | null = null;
+
+// Formats this browser's canvas can encode, probed once with a 1x1 canvas
+export function getSupportedImageFormats(): Promise<ImageFormat[]> {
+  supportedFormatsPromise ??= (async () => {
+    const canvas = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(1, 1)
+      : Object.assign(document.createElement('canvas'), { width: 1, height: 1 });
+    canvas.getContext('2d');
+
+    const formats = Object.keys(IMAGE_FORMATS) as ImageFormat[];
+    const supported = await Promise.all(formats.map(format =>
+      canvasToBlob(canvas, format).then(() => true, () => false)
+    ));
+    return formats.filter((_, index) => supported[index]);
+  })();
+
+  return supportedFormatsPromise;
+}
+
+// Decodes an image blob and returns its pixels scaled down to at most maxWidth. Works in workers.
+export async function loadDownscaledImageData(blob: Blob, maxWidth: number): Promise<ImageData> {
+  const bitmap = await createImageBitmap(blob);
+
+  try {
+    const scale = bitmap.width > maxWidth ? maxWidth / bitmap.width : 1;
+    const width = Math.max(1, Math.floor(bitmap.width * scale));
+    const height = Math.max(1, Math.floor(bitmap.height * scale));
+
+    // DOM canvas for main-thread callers on browsers without OffscreenCanvas
+    const canvas = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(width, height)
+      : Object.assign(document.createElement('canvas'), { width, height });
+    const ctx = canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!ctx) {
+      throw new Error('Could not get canvas context');
+    }
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'medium';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    return ctx.getImageData(0, 0, width, height);
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { extractKeyframes } from '@/lib/keyframeExtraction';
+
+interface FakePacket {
+  timestamp: number;
+  toEncodedVideoChunk: () => { timestamp: number };
+}
+
+const track = vi.hoisted(() => ({ keyTimestamps: [] as number[], dispose: vi.fn() }));
+
+function makePacket(timestamp: number): FakePacket {
+  return { timestamp, toEncodedVideoChunk: () => ({ timestamp }) };
+}
+
+vi.mock('mediabunny', () => ({
+  ALL_FORMATS: [],
+  BlobSource: class {},
+  Input: class {
+    dispose = track.dispose;
+    async getPrimaryVideoTrack() {
+      return { rotation: 0, getDecoderConfig: async () => ({ codec: 'avc1.640028' }) };
+    }
+  },
+  EncodedPacketSink: class {
+    // The last key packet at or before `time`
+    async getKeyPacket(time: number) {
+      const before = track.keyTimestamps.filter(timestamp => timestamp <= time);
+      return before.length > 0 ? makePacket(before[before.length - 1]) : null;
+    }
+    async getFirstPacket() {
+      return track.keyTimestamps.length > 0 ? makePacket(track.keyTimestamps[0]) : null;
+    }
+    async getNextKeyPacket(packet: FakePacket) {
+      const next = track.keyTimestamps.find(timestamp => timestamp > packet.timestamp);
+      return next === undefined ? null : makePacket(next);
+    }
+  },
+}));
+
+vi.mock('@/lib/mediaBunnyExtraction', () => ({
+  storeExtractedFrame: async (_source: unknown, frameNumber: number, timestamp: number) => ({
+    id: `frame-${frameNumber}`,
+    name: `frame_${frameNumber}.jpg`,
+    timestamp,
+    format: 'jpeg',
+  }),
+}));
+
+// Decodes each chunk into one frame on flush, as a real decoder does for a lone key packet
+class FakeVideoDecoder {
+  state = 'unconfigured';
+  private pending: { timestamp: number }[] = [];
+  private output: (frame: object) => void;
+
+  constructor({ output }: { output: (frame: object) => void }) {
+    this.output = output;
+  }
+
+  configure() {
+    this.state = 'configured';
+  }
+
+  decode(chunk: { timestamp: number }) {
+    this.pending.push(chunk);
+  }
+
+  async flush() {
+    for (const chunk of this.pending.splice(0)) {
+      this.output({ displayWidth: 16, displayHeight: 9, timestamp: chunk.timestamp * 1000000, close: () => {} });
+    }
+  }
+
+  close() {
+    this.state = 'closed';
+  }
+}
+
+class FakeOffscreenCanvas {
+  getContext() {
+    return { drawImage: () => {} };
+  }
+}
+
+function extract(keyTimestamps: number[], timeRange: [number, number]) {
+  track.keyTimestamps = keyTimestamps;
+  return extractKeyframes(new File([], 'clip.mp4'), 'jpeg', 0.9, timeRange, () => {});
+}
+
+describe('extractKeyframes', () => {
+  beforeEach(() => {
+    vi.stubGlobal('VideoDecoder', FakeVideoDecoder);
+    vi.stubGlobal('OffscreenCanvas', FakeOffscreenCanvas);
+    track.dispose.mockClear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('extracts only the keyframes inside the time range', async () => {
+    const frames = await extract([0, 2, 4, 6, 8], [3, 7]);
+
+    expect(frames.map(frame => frame.timestamp)).toEqual([4, 6]);
+    expect(frames.map(frame => frame.name)).toEqual(['frame_0.jpg', 'frame_1.jpg']);
+  });
+
+  it('fails when the time range holds no keyframe', async () => {
+    await expect(extract([0, 10], [2, 8])).rejects.toThrow('No keyframes found in time range: start=2s, end=8s');
+  });
+
+  it('disposes the input when extraction ends or fails', async () => {
+    await extract([0, 2], [0, 4]);
+    expect(track.dispose).toHaveBeenCalledTimes(1);
+
+    await expect(extract([], [0, 4])).rejects.toThrow();
+    expect(track.dispose).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,126 @@
+import { Input, BlobSource, ALL_FORMATS, EncodedPacketSink, type EncodedPacket } from 'mediabunny';
+import { type ImageFormat } from './imageUtils';
+import { applyContainerRotation, DEFAULT_OUTPUT_TRANSFORM, type OutputTransform } from './outputTransform';
+import { storeExtractedFrame, type ExtractedFrame } from './mediaBunnyExtraction';
+
+/**
+ * Extracts only the key (I-)frames in the time range. Delta packets are never read or decoded,
+ * which makes this much faster than a full decode for long, sparsely changing footage.
+ */
+export async function extractKeyframes(
+  videoFile: File,
+  format: ImageFormat,
+  quality: number,
+  timeRange: [number, number],
+  onProgress: (current: number, total: number) => void,
+  signal?: AbortSignal,
+  prefix: string = '',
+  transform: OutputTransform = DEFAULT_OUTPUT_TRANSFORM,
+  firstIndex: number = 0
+): Promise<ExtractedFrame[]> {
+  const input = new Input({
+    formats: ALL_FORMATS,
+    source: new BlobSource(videoFile)
+  });
+
+  try {
+    const videoTrack = await input.getPrimaryVideoTrack();
+    if (!videoTrack) {
+      throw new Error('No video track found in video file');
+    }
+
+    const decoderConfig = await videoTrack.getDecoderConfig();
+    if (!decoderConfig) {
+      throw new Error('Video codec not supported for keyframe extraction');
+    }
+
+    if (signal?.aborted) {
+      throw new DOMException('Frame extraction cancelled', 'AbortError');
+    }
+
+    const [startTime, endTime] = timeRange;
+    const packetSink = new EncodedPacketSink(videoTrack);
+
+    // First pass over packet metadata only, to know the keyframe count for progress reporting
+    const keyTimestamps: number[] = [];
+    let metadataPacket = await packetSink.getKeyPacket(startTime, { metadataOnly: true })
+      ?? await packetSink.getFirstPacket({ metadataOnly: true });
+    while (metadataPacket && metadataPacket.timestamp < endTime) {
+      if (metadataPacket.timestamp >= startTime) {
+        keyTimestamps.push(metadataPacket.timestamp);
+      }
+      metadataPacket = await packetSink.getNextKeyPacket(metadataPacket, { metadataOnly: true });
+    }
+
+    const total = keyTimestamps.length;
+    if (total === 0) {
+      throw new Error(`No keyframes found in time range: start=${startTime}s, end=${endTime}s`);
+    }
+
+    const decodedFrames: VideoFrame[] = [];
+    let decoderError: Error | null = null;
+    const decoder = new VideoDecoder({
+      output: (frame) => decodedFrames.push(frame),
+      error: (error) => {
+        decoderError = error;
+      }
+    });
+    decoder.configure(decoderConfig);
+
+    // Unlike CanvasSink, a bare VideoDecoder ignores the container's rotation metadata
+    const rotation = videoTrack.rotation;
+    const canvas = new OffscreenCanvas(1, 1);
+    const ctx = canvas.getContext('2d')!;
+    const frames: ExtractedFrame[] = [];
+
+    try {
+      let packet: EncodedPacket | null = await packetSink.getKeyPacket(keyTimestamps[0], { verifyKeyPackets: true });
+
+      while (packet && packet.timestamp < endTime) {
+        if (signal?.aborted) {
+          throw new DOMException('Frame extraction cancelled', 'AbortError');
+        }
+
+        if (packet.timestamp >= startTime) {
+          // Each key packet decodes on its own; flushing after it yields exactly one frame
+          decoder.decode(packet.toEncodedVideoChunk());
+          await decoder.flush();
+
+          if (decoderError) {
+            throw decoderError;
+          }
+
+          for (const videoFrame of decodedFrames.splice(0)) {
+            canvas.width = videoFrame.displayWidth;
+            canvas.height = videoFrame.displayHeight;
+            ctx.drawImage(videoFrame, 0, 0);
+            const timestamp = videoFrame.timestamp / 1000000;
+            videoFrame.close();
+
+            const upright = rotation === 0
+              ? canvas
+              : applyContainerRotation(canvas, canvas.width, canvas.height, rotation);
+            frames.push(await storeExtractedFrame(upright, firstIndex + frames.length, timestamp, format, quality, prefix, transform));
+          }
+
+          onProgress(frames.length, total);
+        }
+
+        packet = await packetSink.getNextKeyPacket(packet, { verifyKeyPackets: true });
+      }
+    } finally {
+      decodedFrames.forEach(frame => frame.close());
+      if (decoder.state !== 'closed') {
+        decoder.close();
+      }
+    }
+
+    if (frames.length === 0) {
+      throw new Error('No frames were successfully extracted');
+    }
+
+    return frames;
+  } finally {
+    input.dispose();
+  }
+}
@@ -1,23 +1,86 @@
 import { Input, BlobSource, ALL_FORMATS, CanvasSink } from 'mediabunny';
 import { frameStorage } from './frameStorage';
+import { canvasToBlob, type ImageFormat } from './imageUtils';
+import { applyOutputTransform, isIdentityTransform, DEFAULT_OUTPUT_TRANSFORM, type OutputTransform } from './outputTransform';
 import type { StoredFrameData } from '@/types/frame';
 
 export interface ExtractedFrame {
   id: string;
   blob: Blob;
   name: string;
-  format: 'jpeg' | 'png';
+  format: ImageFormat;
   timestamp: number;
+  rangeLabel?: string;
+}
+
+// An upright decoded frame, before the output transform
+type FrameSource = HTMLCanvasElement | OffscreenCanvas | ImageBitmap;
+
+/**
+ * Applies the output transform to a decoded frame and encodes it, named by `frameNumber`.
+ * Every backend names frames through here, so ids and file names can't drift between them.
+ */
+export async function encodeExtractedFrame(
+  source: FrameSource,
+  frameNumber: number,
+  timestamp: number,
+  format: ImageFormat,
+  quality: number,
+  prefix: string = '',
+  transform: OutputTransform = DEFAULT_OUTPUT_TRANSFORM
+): Promise<ExtractedFrame> {
+  // Bitmaps can't be encoded directly, so they're always drawn into a canvas
+  const output = isIdentityTransform(transform) && !(source instanceof ImageBitmap)
+    ? source
+    : applyOutputTransform(source, source.width, source.height, transform);
+  const blob = await canvasToBlob(output, format, quality);
+  const id = `${prefix || 'frame'}_${frameNumber.toString().padStart(5, '0')}`;
+
+  return { id, blob, name: `${id}.${format}`, format, timestamp };
+}
+
+function toStoredFrame(frame: ExtractedFrame): StoredFrameData {
+  return {
+    id: frame.id,
+    blob: frame.blob,
+    name: frame.name,
+    format: frame.format,
+    timestamp: frame.timestamp,
+    data: new Uint8Array(0), // Empty array - data generated on demand
+    storedAt: Date.now()
+  };
+}
+
+/**
+ * encodeExtractedFrame, then stores the frame in IndexedDB; for backends that emit one frame
+ * at a time.
+ */
+export async function storeExtractedFrame(
+  source: FrameSource,
+  frameNumber: number,
+  timestamp: number,
+  format: ImageFormat,
+  quality: number,
+  prefix: string = '',
+  transform: OutputTransform = DEFAULT_OUTPUT_TRANSFORM
+): Promise<ExtractedFrame> {
+  const frame = await encodeExtractedFrame(source, frameNumber, timestamp, format, quality, prefix, transform);
+  await frameStorage.storeFrame(toStoredFrame(frame));
+  return frame;
 }
 
 export async function extractWithMediaBunny(
   videoFile: File,
   fps: number,
-  format: 'jpeg' | 'png',
+  format: ImageFormat,
+  quality: number,
   timeRange: [number, number],
   onProgress: (current: number, total: number) => void,
   signal?: AbortSignal,
-  fallbackDurationSeconds?: number
+  fallbackDurationSeconds?: number,
+  prefix: string = '',
+  transform: OutputTransform = DEFAULT_OUTPUT_TRANSFORM,
+  firstIndex: number = 0
 ): Promise<ExtractedFrame[]> {
   const input = new Input({
     formats: ALL_FORMATS,
@@ -67,7 +130,26 @@ export async function extractWithMediaBunny(
   // Batch processing configuration
   const BATCH_SIZE = 20; // Process 20 frames at a time for optimal performance
   const canvasBatch: Array<{ canvas: HTMLCanvasElement | OffscreenCanvas; timestamp: number; index: number }> = [];
-  const frameBatch: StoredFrameData[] = [];
+
+  // Encodes the batch in parallel and stores it in a single transaction (with optimized thumbnails)
+  const flushBatch = async () => {
+    // CanvasSink hands out a fresh canvas per frame, so the batch can hold on to them
+    const batchFrames = await Promise.all(canvasBatch.map(({ canvas, timestamp, index }) =>
+      encodeExtractedFrame(canvas, firstIndex + index, timestamp, format, quality, prefix, transform)
+    ));
+
+    // Clear canvas batch immediately to free memory
+    canvasBatch.length = 0;
+
+    if (batchFrames.length > 0) {
+      await frameStorage.storeFrameBatch(batchFrames.map(toStoredFrame));
+      frames.push(...batchFrames);
+      processedFrames += batchFrames.length;
+
+      // Update progress after each batch
+      onProgress(processedFrames, frameCount);
+    }
+  };
 
   try {
     for await (const result of sink.canvasesAtTimestamps(timestamps)) {
@@ -76,90 +158,12 @@ export async function extractWithMediaBunny(
       }
       
       if (result && result.canvas) {
-        // Add to batch for parallel processing
-        canvasBatch.push({
-          canvas: result.canvas,
-          timestamp: result.timestamp,
-          index: frameIndex
-        });
-        
+        canvasBatch.push({ canvas: result.canvas, timestamp: result.timestamp, index: frameIndex });
         frameIndex++;
         
         // Process batch when it reaches BATCH_SIZE or is the last batch
         if (canvasBatch.length >= BATCH_SIZE || frameIndex === frameCount) {
-          // Convert canvases to blobs in parallel
-          const blobPromises = canvasBatch.map(async ({ canvas, timestamp, index }) => {
-            let blob: Blob;
-            
-            if (canvas instanceof HTMLCanvasElement) {
-              blob = await new Promise<Blob>((resolve, reject) => {
-                canvas.toBlob(
-                  (b) => b ? resolve(b) : reject(new Error('Failed to create blob')),
-                  format === 'jpeg' ? 'image/jpeg' : 'image/png',
-                  0.95
-                );
-              });
-            } else {
-              blob = await canvas.convertToBlob({
-                type: format === 'jpeg' ? 'image/jpeg' : 'image/png',
-                quality: 0.95
-              });
-            }
-            
-            const frameId = `frame_${index.toString().padStart(5, '0')}`;
-            const fileName = `${frameId}.${format}`;
-            
-            return {
-              id: frameId,
-              blob,
-              name: fileName,
-              format,
-              timestamp,
-              index
-            };
-          });
-          
-          // Wait for all blobs in batch to be created
-          const blobResults = await Promise.all(blobPromises);
-          
-          // Prepare frames for batch storage (defer ArrayBuffer conversion)
-          for (const blobResult of blobResults) {
-            const storedFrame: StoredFrameData = {
-              id: blobResult.id,
-              blob: blobResult.blob,
-              name: blobResult.name,
-              format: blobResult.format,
-              timestamp: blobResult.timestamp,
-              data: new Uint8Array(0), // Skip ArrayBuffer - will generate on demand
-              storedAt: Date.now()
-            };
-            
-            frameBatch.push(storedFrame);
-            
-            frames.push({
-              id: blobResult.id,
-              blob: blobResult.blob,
-              name: blobResult.name,
-              format: blobResult.format as 'jpeg' | 'png',
-              timestamp: blobResult.timestamp
-            });
-          }
-          
-          // Store batch of frames in single transaction (with optimized thumbnails)
-          if (frameBatch.length > 0) {
-            await frameStorage.storeFrameBatch(frameBatch);
-
-            processedFrames += frameBatch.length;
-
-            // Update progress after each batch
-            onProgress(processedFrames, frameCount);
-            
-            // Clear batches immediately to free memory
-            frameBatch.length = 0;
-          }
-          
-          // Clear canvas batch immediately to free memory
-          canvasBatch.length = 0;
+          await flushBatch();
           
           // Hint garbage collection after batch processing
           if (typeof globalThis !== 'undefined' && globalThis.gc) {
@@ -176,71 +180,7 @@ export async function extractWithMediaBunny(
     }
     
     // Process any remaining frames in the batch
-    if (canvasBatch.length > 0) {
-      // Same batch processing logic as above
-      const blobPromises = canvasBatch.map(async ({ canvas, timestamp, index }) => {
-        let blob: Blob;
-        
-        if (canvas instanceof HTMLCanvasElement) {
-          blob = await new Promise<Blob>((resolve, reject) => {
-            canvas.toBlob(
-              (b) => b ? resolve(b) : reject(new Error('Failed to create blob')),
-              format === 'jpeg' ? 'image/jpeg' : 'image/png',
-              0.95
-            );
-          });
-        } else {
-          blob = await canvas.convertToBlob({
-            type: format === 'jpeg' ? 'image/jpeg' : 'image/png',
-            quality: 0.95
-          });
-        }
-        
-        const frameId = `frame_${index.toString().padStart(5, '0')}`;
-        const fileName = `${frameId}.${format}`;
-        
-        return {
-          id: frameId,
-          blob,
-          name: fileName,
-          format,
-          timestamp,
-          index
-        };
-      });
-      
-      const blobResults = await Promise.all(blobPromises);
-      
-      for (const blobResult of blobResults) {
-        const storedFrame: StoredFrameData = {
-          id: blobResult.id,
-          blob: blobResult.blob,
-          name: blobResult.name,
-          format: blobResult.format,
-          timestamp: blobResult.timestamp,
-          data: new Uint8Array(0), // Skip ArrayBuffer - will generate on demand
-          storedAt: Date.now()
-        };
-        
-        frameBatch.push(storedFrame);
-        
-        frames.push({
-          id: blobResult.id,
-          blob: blobResult.blob,
-          name: blobResult.name,
-          format: blobResult.format as 'jpeg' | 'png',
-          timestamp: blobResult.timestamp
-        });
-      }
-      
-      if (frameBatch.length > 0) {
-        await frameStorage.storeFrameBatch(frameBatch);
-        processedFrames += frameBatch.length;
-        
-        // Final progress update
-        onProgress(processedFrames, frameCount);
-      }
-    }
+    await flushBatch();
   } catch (error) {
     if (error instanceof DOMException && error.name === 'AbortError') {
       throw error;
@@ -0,0 +1,135 @@
+import { resizeGrayscale, type GrayscaleImage } from './sharpnessMetrics';
+
+// Motion is measured on tiny thumbnails; block matching at full size would be far too slow
+export const MOTION_THUMBNAIL_WIDTH = 64;
+const PATCH_SIZE = 8;
+const SEARCH_RADIUS = 6;
+// The coarse pyramid level searches whole-frame shifts up to this fraction of its size
+const COARSE_MAX_SHIFT = 0.3;
+// Patches flatter than this (grey-level variance) match anywhere and are skipped
+const MIN_PATCH_VARIANCE = 25;
+
+export function createMotionThumbnail(image: GrayscaleImage): GrayscaleImage {
+  return resizeGrayscale(image, MOTION_THUMBNAIL_WIDTH);
+}
+
+function patchVariance(image: GrayscaleImage, px: number, py: number): number {
+  let sum = 0;
+  let sumSquares = 0;
+  for (let y = 0; y < PATCH_SIZE; y++) {
+    for (let x = 0; x < PATCH_SIZE; x++) {
+      const value = image.data[(py + y) * image.width + px + x];
+      sum += value;
+      sumSquares += value * value;
+    }
+  }
+  const count = PATCH_SIZE * PATCH_SIZE;
+  return sumSquares / count - (sum / count) ** 2;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Whole-frame translation (in pixels of these images) with the lowest mean absolute difference
+// over the overlapping area
+function estimateGlobalShift(previous: GrayscaleImage, current: GrayscaleImage): { dx: number; dy: number } {
+  const { width, height } = previous;
+  const maxShiftX = Math.round(width * COARSE_MAX_SHIFT);
+  const maxShiftY = Math.round(height * COARSE_MAX_SHIFT);
+
+  let bestCost = Infinity;
+  let best = { dx: 0, dy: 0 };
+
+  for (let dy = -maxShiftY; dy <= maxShiftY; dy++) {
+    for (let dx = -maxShiftX; dx <= maxShiftX; dx++) {
+      let cost = 0;
+      let count = 0;
+      for (let y = Math.max(0, -dy); y < Math.min(height, height - dy); y++) {
+        const previousRow = y * width;
+        const currentRow = (y + dy) * width + dx;
+        for (let x = Math.max(0, -dx); x < Math.min(width, width - dx); x++) {
+          cost += Math.abs(previous.data[previousRow + x] - current.data[currentRow + x]);
+          count++;
+        }
+      }
+      if (count === 0) continue;
+
+      cost /= count;
+      if (cost < bestCost || (cost === bestCost && Math.hypot(dx, dy) < Math.hypot(best.dx, best.dy))) {
+        bestCost = cost;
+        best = { dx, dy };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Coarse-to-fine block-matching flow between two motion thumbnails of the same size.
+ * A whole-frame shift found at half resolution centres the search; each textured patch of
+ * `previous` is then matched in `current` within SEARCH_RADIUS of it, so fast pans are
+ * measured in full while zooms and parallax still resolve per patch. The median displacement
+ * length is returned as a percentage of the frame width, so pans, dolly moves and zooms all
+ * register regardless of source resolution.
+ */
+export function estimateMotion(previous: GrayscaleImage, current: GrayscaleImage): number {
+  const { width, height } = previous;
+  if (current.width !== width || current.height !== height) return 0;
+
+  const coarsePrevious = resizeGrayscale(previous, Math.max(1, Math.floor(width / 2)));
+  const coarseShift = estimateGlobalShift(coarsePrevious, resizeGrayscale(current, coarsePrevious.width));
+  const centerDx = Math.round(coarseShift.dx * width / coarsePrevious.width);
+  const centerDy = Math.round(coarseShift.dy * height / coarsePrevious.height);
+
+  const displacements: number[] = [];
+
+  for (let py = 0; py + PATCH_SIZE <= height; py += PATCH_SIZE) {
+    for (let px = 0; px + PATCH_SIZE <= width; px += PATCH_SIZE) {
+      if (patchVariance(previous, px, py) < MIN_PATCH_VARIANCE) continue;
+
+      let bestCost = Infinity;
+      let bestDx = 0;
+      let bestDy = 0;
+
+      for (let dy = centerDy - SEARCH_RADIUS; dy <= centerDy + SEARCH_RADIUS; dy++) {
+        if (py + dy < 0 || py + dy + PATCH_SIZE > height) continue;
+
+        for (let dx = centerDx - SEARCH_RADIUS; dx <= centerDx + SEARCH_RADIUS; dx++) {
+          if (px + dx < 0 || px + dx + PATCH_SIZE > width) continue;
+
+          let cost = 0;
+          let y = 0;
+          for (; y < PATCH_SIZE && cost < bestCost; y++) {
+            const previousRow = (py + y) * width + px;
+            const currentRow = (py + y + dy) * width + px + dx;
+            for (let x = 0; x < PATCH_SIZE; x++) {
+              cost += Math.abs(previous.data[previousRow + x] - current.data[currentRow + x]);
+            }
+          }
+          // Cut short: already worse, and a partial sum must not pass for a tie
+          if (y < PATCH_SIZE) continue;
+
+          // Prefer the smaller displacement on ties so static texture reads as static
+          if (cost < bestCost || (cost === bestCost && Math.hypot(dx, dy) < Math.hypot(bestDx, bestDy))) {
+            bestCost = cost;
+            bestDx = dx;
+            bestDy = dy;
+          }
+        }
+      }
+
+      // Patches shifted out of the frame have no match
+      if (bestCost === Infinity) continue;
+
+      displacements.push(Math.hypot(bestDx, bestDy));
+    }
+  }
+
+  if (displacements.length === 0) return 0;
+
+  return (median(displacements) / width) * 100;
+}
@@ -1,3 +1,5 @@
+import { computeSharpness, toGrayscale, DEFAULT_SHARPNESS_METRIC, type SharpnessMetricId } from './sharpnessMetrics';
+
 declare global {
   interface Window {
     cv: OpenCV;
@@ -77,12 +79,16 @@ export async function loadOpenCV(): Promise<void> {
   return opencvLoadPromise;
 }
 
-export async function calculateSharpnessScore(imageBlob: Blob): Promise<number> {
-  if (!opencvLoaded) {
+export async function calculateSharpnessScore(
+  imageBlob: Blob,
+  metric: SharpnessMetricId = DEFAULT_SHARPNESS_METRIC
+): Promise<number> {
+  // Only the default metric runs through OpenCV; the others are pure TS
+  const useOpenCV = metric === DEFAULT_SHARPNESS_METRIC;
+  if (useOpenCV && !opencvLoaded) {
     await loadOpenCV();
   }
 
-  const cv = window.cv;
   let mat: Mat | null = null;
   let gray: Mat | null = null;
   let laplacian: Mat | null = null;
@@ -111,7 +117,12 @@ export async function calculateSharpnessScore(imageBlob: Blob): Promise<number>
 
     const imageData = ctx.getImageData(0, 0, scaledWidth, scaledHeight);
 
+    if (!useOpenCV) {
+      return computeSharpness(toGrayscale(imageData), metric);
+    }
+
     // Convert to OpenCV matrix
+    const cv = window.cv;
     mat = cv.matFromImageData(imageData);
     gray = new cv.Mat();
     cv.cvtColor(mat, gray, cv.COLOR_RGBA2GRAY);
@@ -0,0 +1,62 @@
+import { Input, BlobSource, ALL_FORMATS, CanvasSink } from 'mediabunny';
+import { canvasToBlob, type ImageFormat } from './imageUtils';
+import { applyOutputTransform, isIdentityTransform, type OutputTransform } from './outputTransform';
+
+type SampleCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+// Decoded once per video and sample time, and re-encoded as the user tries formats and qualities
+let sampleFrame: { file: File; timestamp: number; canvas: Promise<SampleCanvas | null> } | null = null;
+
+async function decodeSampleFrame(videoFile: File, timestamp: number): Promise<SampleCanvas | null> {
+  const input = new Input({
+    formats: ALL_FORMATS,
+    source: new BlobSource(videoFile)
+  });
+
+  try {
+    const videoTrack = await input.getPrimaryVideoTrack();
+    if (!videoTrack || !(await videoTrack.canDecode())) {
+      return null;
+    }
+
+    const wrapped = await new CanvasSink(videoTrack).getCanvas(timestamp);
+    return wrapped?.canvas ?? null;
+  } finally {
+    // The decoded canvas outlives the input, which would otherwise hold the file open
+    input.dispose();
+  }
+}
+
+/**
+ * Encoded size in bytes of one frame of the video (taken at `timestamp` seconds) with the given
+ * format, quality and output transform, or null if the frame can't be decoded or encoded in
+ * this browser.
+ */
+export async function estimateFrameSize(
+  videoFile: File,
+  timestamp: number,
+  format: ImageFormat,
+  quality: number,
+  transform: OutputTransform
+): Promise<number | null> {
+  if (sampleFrame?.file !== videoFile || sampleFrame.timestamp !== timestamp) {
+    sampleFrame = {
+      file: videoFile,
+      timestamp,
+      canvas: decodeSampleFrame(videoFile, timestamp).catch(() => null),
+    };
+  }
+
+  const canvas = await sampleFrame.canvas;
+  if (!canvas) return null;
+
+  try {
+    const output = isIdentityTransform(transform)
+      ? canvas
+      : applyOutputTransform(canvas, canvas.width, canvas.height, transform);
+    const blob = await canvasToBlob(output, format, quality);
+    return blob.size;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_OUTPUT_TRANSFORM,
+  getTransformedSize,
+  isIdentityTransform,
+  mapSourcePoint,
+  type OutputTransform
+} from '@/lib/outputTransform';
+
+function makeTransform(fields: Partial<OutputTransform>): OutputTransform {
+  return { ...DEFAULT_OUTPUT_TRANSFORM, ...fields };
+}
+
+describe('isIdentityTransform', () => {
+  it('ignores size settings that the original size mode does not use', () => {
+    expect(isIdentityTransform(makeTransform({ longEdge: 640, scale: 0.25 }))).toBe(true);
+    expect(isIdentityTransform(makeTransform({ flipVertical: true }))).toBe(false);
+  });
+});
+
+describe('getTransformedSize', () => {
+  it('crops, then resizes without upscaling', () => {
+    const crop = { x: 0.25, y: 0, width: 0.5, height: 1 };
+
+    expect(getTransformedSize(1920, 1080, makeTransform({ crop }))).toEqual({ width: 960, height: 1080 });
+    expect(getTransformedSize(1920, 1080, makeTransform({ sizeMode: 'long-edge', longEdge: 960 }))).toEqual({ width: 960, height: 540 });
+    expect(getTransformedSize(1920, 1080, makeTransform({ sizeMode: 'long-edge', longEdge: 4000 }))).toEqual({ width: 1920, height: 1080 });
+    expect(getTransformedSize(1920, 1080, makeTransform({ sizeMode: 'scale', scale: 0.25 }))).toEqual({ width: 480, height: 270 });
+  });
+
+  it('swaps the sides for quarter turns', () => {
+    expect(getTransformedSize(1920, 1080, makeTransform({ rotation: 90 }))).toEqual({ width: 1080, height: 1920 });
+    expect(getTransformedSize(1920, 1080, makeTransform({ rotation: 180 }))).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('keeps a crop inside the frame', () => {
+    const crop = { x: 0.9, y: 0.9, width: 0.5, height: 0.5 };
+
+    expect(getTransformedSize(100, 100, makeTransform({ crop }))).toEqual({ width: 10, height: 10 });
+  });
+});
+
+describe('mapSourcePoint', () => {
+  it('follows the crop offset and resize factor', () => {
+    const transform = makeTransform({ crop: { x: 0.5, y: 0.5, width: 0.5, height: 0.5 }, sizeMode: 'scale', scale: 0.5 });
+
+    expect(mapSourcePoint(200, 100, transform, 150, 75)).toEqual({ x: 25, y: 12.5, scale: 0.5 });
+  });
+
+  it('rotates clockwise', () => {
+    // The top-left corner ends up top-right after 90 degrees and bottom-left after 270
+    expect(mapSourcePoint(200, 100, makeTransform({ rotation: 90 }), 0, 0)).toMatchObject({ x: 100, y: 0 });
+    expect(mapSourcePoint(200, 100, makeTransform({ rotation: 180 }), 0, 0)).toMatchObject({ x: 200, y: 100 });
+    expect(mapSourcePoint(200, 100, makeTransform({ rotation: 270 }), 0, 0)).toMatchObject({ x: 0, y: 200 });
+  });
+
+  it('flips after rotating', () => {
+    const transform = makeTransform({ rotation: 90, flipHorizontal: true });
+
+    expect(mapSourcePoint(200, 100, transform, 0, 0)).toMatchObject({ x: 0, y: 0 });
+    expect(mapSourcePoint(200, 100, makeTransform({ flipVertical: true }), 10, 20)).toMatchObject({ x: 10, y: 80 });
+  });
+});
@@ -0,0 +1,173 @@
+// Geometry applied to every extracted frame before encoding: crop, then rotate/flip, then resize
+
+export type OutputSizeMode = 'original' | 'long-edge' | 'scale';
+
+export interface CropRect {
+  // Normalized to 0-1 of the source frame, so the crop survives resolution changes
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OutputTransform {
+  sizeMode: OutputSizeMode;
+  // Target long edge in pixels for 'long-edge'
+  longEdge: number;
+  // Factor (0-1] for 'scale'
+  scale: number;
+  crop: CropRect | null;
+  // Clockwise, in degrees
+  rotation: 0 | 90 | 180 | 270;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+}
+
+export const DEFAULT_OUTPUT_TRANSFORM: OutputTransform = {
+  sizeMode: 'original',
+  longEdge: 1920,
+  scale: 0.5,
+  crop: null,
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+};
+
+export function isIdentityTransform(transform: OutputTransform): boolean {
+  return transform.sizeMode === 'original' &&
+    transform.crop === null &&
+    transform.rotation === 0 &&
+    !transform.flipHorizontal &&
+    !transform.flipVertical;
+}
+
+function getCropPixels(sourceWidth: number, sourceHeight: number, crop: CropRect | null) {
+  if (!crop) {
+    return { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+  }
+
+  const x = Math.round(crop.x * sourceWidth);
+  const y = Math.round(crop.y * sourceHeight);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(sourceWidth - x, Math.round(crop.width * sourceWidth))),
+    height: Math.max(1, Math.min(sourceHeight - y, Math.round(crop.height * sourceHeight))),
+  };
+}
+
+// Resize factor for the cropped region; frames are never upscaled
+function getResizeFactor(width: number, height: number, transform: OutputTransform): number {
+  switch (transform.sizeMode) {
+    case 'original':
+      return 1;
+    case 'long-edge':
+      return Math.min(1, transform.longEdge / Math.max(width, height));
+    case 'scale':
+      return Math.min(1, Math.max(0.01, transform.scale));
+  }
+}
+
+/**
+ * Dimensions of a frame after the transform, for intrinsics and size estimates.
+ */
+export function getTransformedSize(
+  sourceWidth: number,
+  sourceHeight: number,
+  transform: OutputTransform
+): { width: number; height: number } {
+  const crop = getCropPixels(sourceWidth, sourceHeight, transform.crop);
+  const factor = getResizeFactor(crop.width, crop.height, transform);
+  const width = Math.max(1, Math.round(crop.width * factor));
+  const height = Math.max(1, Math.round(crop.height * factor));
+
+  return transform.rotation === 90 || transform.rotation === 270
+    ? { width: height, height: width }
+    : { width, height };
+}
+
+/**
+ * Where a point of the source frame (in pixels) lands in the transformed frame, and the resize
+ * factor applied on the way, so camera intrinsics can follow the crop, resize, rotation and flips.
+ */
+export function mapSourcePoint(
+  sourceWidth: number,
+  sourceHeight: number,
+  transform: OutputTransform,
+  x: number,
+  y: number
+): { x: number; y: number; scale: number } {
+  const crop = getCropPixels(sourceWidth, sourceHeight, transform.crop);
+  const factor = getResizeFactor(crop.width, crop.height, transform);
+  const drawWidth = Math.max(1, Math.round(crop.width * factor));
+  const drawHeight = Math.max(1, Math.round(crop.height * factor));
+  const px = (x - crop.x) * factor;
+  const py = (y - crop.y) * factor;
+
+  // Clockwise rotation, as applyOutputTransform draws it
+  const rotated = transform.rotation === 90 ? { x: drawHeight - py, y: px }
+    : transform.rotation === 180 ? { x: drawWidth - px, y: drawHeight - py }
+    : transform.rotation === 270 ? { x: py, y: drawWidth - px }
+    : { x: px, y: py };
+
+  const { width, height } = getTransformedSize(sourceWidth, sourceHeight, transform);
+  return {
+    x: transform.flipHorizontal ? width - rotated.x : rotated.x,
+    y: transform.flipVertical ? height - rotated.y : rotated.y,
+    scale: factor,
+  };
+}
+
+/**
+ * Turns a decoded frame upright according to the container's rotation metadata (clockwise),
+ * for decoders that hand out frames in their coded orientation.
+ */
+export function applyContainerRotation(
+  source: CanvasImageSource,
+  codedWidth: number,
+  codedHeight: number,
+  rotation: OutputTransform['rotation']
+): HTMLCanvasElement | OffscreenCanvas {
+  return applyOutputTransform(source, codedWidth, codedHeight, { ...DEFAULT_OUTPUT_TRANSFORM, rotation });
+}
+
+/**
+ * Draws `source` with the transform applied into a new canvas of the transformed size.
+ * Returns an OffscreenCanvas where available (always in workers), otherwise a DOM canvas.
+ */
+export function applyOutputTransform(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  transform: OutputTransform
+): HTMLCanvasElement | OffscreenCanvas {
+  const crop = getCropPixels(sourceWidth, sourceHeight, transform.crop);
+  const factor = getResizeFactor(crop.width, crop.height, transform);
+  const drawWidth = Math.max(1, Math.round(crop.width * factor));
+  const drawHeight = Math.max(1, Math.round(crop.height * factor));
+  const { width, height } = getTransformedSize(sourceWidth, sourceHeight, transform);
+
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  // Work around the output centre so rotation and flips don't need per-case offsets.
+  // Flips come after the rotation, so they mirror the output as the user sees it.
+  ctx.translate(width / 2, height / 2);
+  ctx.scale(transform.flipHorizontal ? -1 : 1, transform.flipVertical ? -1 : 1);
+  ctx.rotate((transform.rotation * Math.PI) / 180);
+  ctx.drawImage(
+    source,
+    crop.x, crop.y, crop.width, crop.height,
+    -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight
+  );
+
+  return canvas;
+}
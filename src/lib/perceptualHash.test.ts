@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { differenceHash, findDuplicateGroups, hammingDistance } from '@/lib/perceptualHash';
+import { type GrayscaleImage } from '@/lib/sharpnessMetrics';
+
+function makeImage(width: number, height: number, pixel: (x: number, y: number) => number): GrayscaleImage {
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = pixel(x, y);
+    }
+  }
+  return { data, width, height };
+}
+
+describe('differenceHash', () => {
+  it('sets a bit wherever a sample is brighter than its right neighbour', () => {
+    expect(differenceHash(makeImage(90, 80, x => 255 - x))).toBe('ffffffffffffffff');
+    expect(differenceHash(makeImage(90, 80, x => x))).toBe('0000000000000000');
+  });
+
+  it('is unaffected by resolution and uniform brightness changes', () => {
+    const pattern = (x: number, y: number) => ((x * 7 + y * 13) % 50) * 4;
+
+    expect(differenceHash(makeImage(180, 160, (x, y) => pattern(x >> 1, y >> 1))))
+      .toBe(differenceHash(makeImage(90, 80, pattern)));
+    expect(differenceHash(makeImage(90, 80, (x, y) => pattern(x, y) + 20)))
+      .toBe(differenceHash(makeImage(90, 80, pattern)));
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  const same = '0000000000000000';
+  const near = '0000000000000003';
+  const far = 'ffffffffffffffff';
+
+  it('groups runs of near-identical consecutive frames', () => {
+    expect(findDuplicateGroups([same, near, far, far, same])).toEqual([0, 0, 1, 1, undefined]);
+  });
+
+  it('leaves frames without a hash or a near-duplicate ungrouped', () => {
+    expect(findDuplicateGroups([same, undefined, same, far])).toEqual([undefined, undefined, undefined, undefined]);
+  });
+
+  it('compares with the first frame of a run so slow drift starts a new group', () => {
+    // Each hash differs from the previous one by 2 bits, but from the run's first by more
+    const drift = ['0000000000000000', '0000000000000003', '000000000000000f', '000000000000003f', '00000000000000ff'];
+
+    expect(findDuplicateGroups(drift, 2)).toEqual([0, 0, 1, 1, undefined]);
+  });
+});
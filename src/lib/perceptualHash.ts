@@ -0,0 +1,100 @@
+import { type GrayscaleImage } from './sharpnessMetrics';
+
+// dHash grid: 9x8 samples give 8 horizontal comparisons per row, 64 bits in total
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Frames whose hashes differ in at most this many of the 64 bits count as near-duplicates
+export const DUPLICATE_HASH_DISTANCE = 5;
+
+/**
+ * Difference hash: box-averages the image down to 9x8 and records whether each
+ * sample is brighter than its right neighbour. Returned as 16 hex characters.
+ */
+export function differenceHash(image: GrayscaleImage): string {
+  const { data, width, height } = image;
+  const samples = new Float64Array(HASH_WIDTH * HASH_HEIGHT);
+
+  for (let sy = 0; sy < HASH_HEIGHT; sy++) {
+    const y0 = Math.floor((sy * height) / HASH_HEIGHT);
+    const y1 = Math.max(y0 + 1, Math.floor(((sy + 1) * height) / HASH_HEIGHT));
+
+    for (let sx = 0; sx < HASH_WIDTH; sx++) {
+      const x0 = Math.floor((sx * width) / HASH_WIDTH);
+      const x1 = Math.max(x0 + 1, Math.floor(((sx + 1) * width) / HASH_WIDTH));
+
+      let sum = 0;
+      let count = 0;
+      for (let y = y0; y < Math.min(y1, height); y++) {
+        for (let x = x0; x < Math.min(x1, width); x++) {
+          sum += data[y * width + x];
+          count++;
+        }
+      }
+      samples[sy * HASH_WIDTH + sx] = count > 0 ? sum / count : 0;
+    }
+  }
+
+  let hash = '';
+  for (let sy = 0; sy < HASH_HEIGHT; sy++) {
+    // One row of 8 comparisons is exactly two hex digits
+    let bits = 0;
+    for (let sx = 0; sx < HASH_WIDTH - 1; sx++) {
+      const index = sy * HASH_WIDTH + sx;
+      bits = (bits << 1) | (samples[index] > samples[index + 1] ? 1 : 0);
+    }
+    hash += bits.toString(16).padStart(2, '0');
+  }
+
+  return hash;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Groups runs of consecutive near-duplicate frames (e.g. while the camera pauses).
+ * Each frame is compared with the first frame of the current run, so slow drift
+ * eventually starts a new group instead of chaining the whole video together.
+ * Returns a group number per frame; frames without a near-duplicate get undefined.
+ */
+export function findDuplicateGroups(
+  hashes: (string | undefined)[],
+  maxDistance: number = DUPLICATE_HASH_DISTANCE
+): (number | undefined)[] {
+  const groups: (number | undefined)[] = new Array(hashes.length).fill(undefined);
+  let nextGroup = 0;
+  let runStart = 0;
+
+  const closeRun = (end: number) => {
+    if (end - runStart >= 2) {
+      for (let i = runStart; i < end; i++) {
+        groups[i] = nextGroup;
+      }
+      nextGroup++;
+    }
+  };
+
+  for (let i = 1; i <= hashes.length; i++) {
+    const anchor = hashes[runStart];
+    const current = hashes[i];
+    const isDuplicate = i < hashes.length && anchor !== undefined && current !== undefined &&
+      hammingDistance(anchor, current) <= maxDistance;
+
+    if (!isDuplicate) {
+      closeRun(i);
+      runStart = i;
+    }
+  }
+
+  return groups;
+}
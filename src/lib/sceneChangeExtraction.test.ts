@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { extractSceneChanges } from '@/lib/sceneChangeExtraction';
+
+// Each fake decoded frame is a flat grey level, so the difference between two frames is just
+// the difference of their levels
+interface FakeCanvas {
+  level: number;
+}
+
+const decoded = vi.hoisted(() => ({ frames: [] as { level: number; timestamp: number }[], dispose: vi.fn() }));
+
+vi.mock('mediabunny', () => ({
+  ALL_FORMATS: [],
+  BlobSource: class {},
+  Input: class {
+    dispose = decoded.dispose;
+    async getPrimaryVideoTrack() {
+      return {
+        displayWidth: 160,
+        displayHeight: 90,
+        computeDuration: async () => 10,
+        computePacketStats: async () => ({ averagePacketRate: 1 }),
+      };
+    }
+  },
+  CanvasSink: class {
+    async *canvases() {
+      for (const { level, timestamp } of decoded.frames) {
+        yield { canvas: { level }, timestamp };
+      }
+    }
+  },
+}));
+
+vi.mock('@/lib/sharpnessMetrics', () => ({
+  toGrayscale: (image: FakeCanvas) => ({ data: new Float32Array(4).fill(image.level) }),
+}));
+
+vi.mock('@/lib/mediaBunnyExtraction', () => ({
+  storeExtractedFrame: async (_source: unknown, frameNumber: number, timestamp: number) => ({
+    id: `frame-${frameNumber}`,
+    name: `frame_${frameNumber}.jpg`,
+    timestamp,
+    format: 'jpeg',
+  }),
+}));
+
+class FakeOffscreenCanvas {
+  private drawn: FakeCanvas = { level: 0 };
+
+  getContext() {
+    return {
+      drawImage: (source: FakeCanvas) => {
+        this.drawn = source;
+      },
+      getImageData: () => this.drawn,
+    };
+  }
+}
+
+function extract(levels: number[], threshold: number, signal?: AbortSignal) {
+  decoded.frames = levels.map((level, i) => ({ level, timestamp: i }));
+  return extractSceneChanges(new File([], 'clip.mp4'), 'jpeg', 0.9, [0, 10], threshold, () => {}, signal);
+}
+
+describe('extractSceneChanges', () => {
+  beforeEach(() => {
+    vi.stubGlobal('OffscreenCanvas', FakeOffscreenCanvas);
+    decoded.dispose.mockClear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the first frame and every cut', async () => {
+    // 10% of 255 is 25.5 grey levels
+    const frames = await extract([0, 5, 10, 200, 205, 50], 10);
+
+    expect(frames.map(frame => frame.timestamp)).toEqual([0, 3, 5]);
+  });
+
+  it('compares against the previous decoded frame, not the last kept one', async () => {
+    // A slow fade drifts far from the first frame without any cut between neighbours
+    const frames = await extract([0, 20, 40, 60, 80, 100], 10);
+
+    expect(frames.map(frame => frame.timestamp)).toEqual([0]);
+  });
+
+  it('numbers the kept frames consecutively', async () => {
+    const frames = await extract([0, 100, 100, 0], 10);
+
+    expect(frames.map(frame => frame.name)).toEqual(['frame_0.jpg', 'frame_1.jpg', 'frame_2.jpg']);
+  });
+
+  it('disposes the input when extraction ends or fails', async () => {
+    await extract([0, 100], 10);
+    expect(decoded.dispose).toHaveBeenCalledTimes(1);
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(extract([0, 100], 10, controller.signal)).rejects.toThrow('Frame extraction cancelled');
+    expect(decoded.dispose).toHaveBeenCalledTimes(2);
+  });
+});
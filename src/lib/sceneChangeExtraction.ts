@@ -0,0 +1,106 @@
+import { Input, BlobSource, ALL_FORMATS, CanvasSink } from 'mediabunny';
+import { type ImageFormat } from './imageUtils';
+import { toGrayscale } from './sharpnessMetrics';
+import { DEFAULT_OUTPUT_TRANSFORM, type OutputTransform } from './outputTransform';
+import { storeExtractedFrame, type ExtractedFrame } from './mediaBunnyExtraction';
+
+// Frames are compared at this width - enough to catch cuts, cheap enough to run on every frame
+const COMPARE_WIDTH = 160;
+
+// Mean absolute grayscale difference (0-255) between two equally sized frames
+function meanAbsoluteDifference(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum / a.length;
+}
+
+/**
+ * Decodes every frame in the time range and emits a frame only when it differs from the
+ * previous decoded frame by more than `threshold` percent (mean absolute grayscale difference).
+ * Comparing consecutive frames catches cuts without splitting slow pans or gradual lighting
+ * changes into several scenes. The first frame of the range is always emitted so every shot
+ * has a representative frame.
+ */
+export async function extractSceneChanges(
+  videoFile: File,
+  format: ImageFormat,
+  quality: number,
+  timeRange: [number, number],
+  threshold: number,
+  onProgress: (current: number, total: number) => void,
+  signal?: AbortSignal,
+  prefix: string = '',
+  transform: OutputTransform = DEFAULT_OUTPUT_TRANSFORM,
+  firstIndex: number = 0
+): Promise<ExtractedFrame[]> {
+  const input = new Input({
+    formats: ALL_FORMATS,
+    source: new BlobSource(videoFile)
+  });
+
+  try {
+    const videoTrack = await input.getPrimaryVideoTrack();
+    if (!videoTrack) {
+      throw new Error('No video track found in video file');
+    }
+
+    if (signal?.aborted) {
+      throw new DOMException('Frame extraction cancelled', 'AbortError');
+    }
+
+    const [startTime, endTime] = timeRange;
+    const duration = await videoTrack.computeDuration();
+    const extractionEnd = Math.min(endTime, duration);
+
+    if (extractionEnd <= startTime) {
+      throw new Error(`Invalid time range: start=${startTime}s, end=${endTime}s, videoDuration=${duration}s`);
+    }
+
+    // Estimate the number of decoded frames for progress reporting
+    const { averagePacketRate } = await videoTrack.computePacketStats(100);
+    const estimatedTotal = Math.max(1, Math.round((extractionEnd - startTime) * averagePacketRate));
+
+    const compareHeight = Math.max(1, Math.round(COMPARE_WIDTH * videoTrack.displayHeight / videoTrack.displayWidth));
+    const compareCanvas = new OffscreenCanvas(COMPARE_WIDTH, compareHeight);
+    const compareCtx = compareCanvas.getContext('2d', { willReadFrequently: true })!;
+
+    const sink = new CanvasSink(videoTrack);
+    const differenceThreshold = (threshold / 100) * 255;
+    const frames: ExtractedFrame[] = [];
+    let previousFrame: Float32Array | null = null;
+    let decodedFrames = 0;
+
+    for await (const { canvas, timestamp } of sink.canvases(startTime, extractionEnd)) {
+      if (signal?.aborted) {
+        throw new DOMException('Frame extraction cancelled', 'AbortError');
+      }
+
+      compareCtx.drawImage(canvas, 0, 0, COMPARE_WIDTH, compareHeight);
+      const grayFrame = toGrayscale(compareCtx.getImageData(0, 0, COMPARE_WIDTH, compareHeight)).data;
+
+      const isSceneChange = previousFrame === null ||
+        meanAbsoluteDifference(previousFrame, grayFrame) >= differenceThreshold;
+      previousFrame = grayFrame;
+
+      if (isSceneChange) {
+        // Scene detection compares the full frame; the transform only shapes the output
+        frames.push(await storeExtractedFrame(canvas, firstIndex + frames.length, timestamp, format, quality, prefix, transform));
+      }
+
+      decodedFrames++;
+      onProgress(Math.min(decodedFrames, estimatedTotal), estimatedTotal);
+    }
+
+    if (frames.length === 0) {
+      throw new Error('No frames were successfully extracted');
+    }
+
+    onProgress(estimatedTotal, estimatedTotal);
+
+    return frames;
+  } finally {
+    input.dispose();
+  }
+}
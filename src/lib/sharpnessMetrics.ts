@@ -0,0 +1,365 @@
+// Pure-TS image metrics that run anywhere, including workers without OpenCV
+
+export interface GrayscaleImage {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+// Same luma weights OpenCV uses for COLOR_RGBA2GRAY
+export function toGrayscale(imageData: ImageData): GrayscaleImage {
+  const { width, height, data } = imageData;
+  const gray = new Float32Array(width * height);
+
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = Math.round(0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]);
+  }
+
+  return { data: gray, width, height };
+}
+
+// Box-filter downscale to the given width, keeping the aspect ratio; never upscales
+export function resizeGrayscale(image: GrayscaleImage, width: number): GrayscaleImage {
+  const targetWidth = Math.min(width, image.width);
+  const targetHeight = Math.max(1, Math.round((targetWidth * image.height) / image.width));
+  const data = new Float32Array(targetWidth * targetHeight);
+
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor((ty * image.height) / targetHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * image.height) / targetHeight));
+
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor((tx * image.width) / targetWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * image.width) / targetWidth));
+
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          sum += image.data[y * image.width + x];
+        }
+      }
+      data[ty * targetWidth + tx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+
+  return { data, width: targetWidth, height: targetHeight };
+}
+
+// Mirrors an out-of-range index back into [0, size) like OpenCV's BORDER_REFLECT_101
+function reflect(index: number, size: number): number {
+  if (size === 1) return 0;
+  if (index < 0) return -index;
+  if (index >= size) return 2 * size - 2 - index;
+  return index;
+}
+
+// 3x3 Laplacian (OpenCV ksize=1 kernel), returned as a new buffer
+export function laplacian(image: GrayscaleImage): Float32Array {
+  const { data, width, height } = image;
+  const output = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const up = reflect(y - 1, height) * width;
+    const row = y * width;
+    const down = reflect(y + 1, height) * width;
+
+    for (let x = 0; x < width; x++) {
+      const left = reflect(x - 1, width);
+      const right = reflect(x + 1, width);
+      output[row + x] = data[up + x] + data[down + x] + data[row + left] + data[row + right] - 4 * data[row + x];
+    }
+  }
+
+  return output;
+}
+
+// Mean absolute deviation of the Laplacian - the score calculateSharpnessScore has always produced
+export function laplacianMeanAbsoluteDeviation(image: GrayscaleImage): number {
+  const response = laplacian(image);
+
+  let sum = 0;
+  for (let i = 0; i < response.length; i++) {
+    sum += response[i];
+  }
+  const mean = sum / response.length;
+
+  let sumAbsDev = 0;
+  for (let i = 0; i < response.length; i++) {
+    sumAbsDev += Math.abs(response[i] - mean);
+  }
+
+  return sumAbsDev / response.length;
+}
+
+export function laplacianVariance(image: GrayscaleImage): number {
+  const response = laplacian(image);
+
+  let sum = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < response.length; i++) {
+    sum += response[i];
+    sumSquares += response[i] * response[i];
+  }
+  const mean = sum / response.length;
+
+  return sumSquares / response.length - mean * mean;
+}
+
+// Calls visit(gx, gy) with the 3x3 Sobel gradient of every pixel
+function forEachSobelGradient(image: GrayscaleImage, visit: (gx: number, gy: number) => void) {
+  const { data, width, height } = image;
+
+  for (let y = 0; y < height; y++) {
+    const up = reflect(y - 1, height) * width;
+    const row = y * width;
+    const down = reflect(y + 1, height) * width;
+
+    for (let x = 0; x < width; x++) {
+      const left = reflect(x - 1, width);
+      const right = reflect(x + 1, width);
+
+      const gx = (data[up + right] + 2 * data[row + right] + data[down + right]) -
+        (data[up + left] + 2 * data[row + left] + data[down + left]);
+      const gy = (data[down + left] + 2 * data[down + x] + data[down + right]) -
+        (data[up + left] + 2 * data[up + x] + data[up + right]);
+
+      visit(gx, gy);
+    }
+  }
+}
+
+// Mean squared Sobel gradient magnitude
+export function tenengrad(image: GrayscaleImage): number {
+  let sum = 0;
+  forEachSobelGradient(image, (gx, gy) => {
+    sum += gx * gx + gy * gy;
+  });
+
+  return sum / (image.width * image.height);
+}
+
+// Mean squared difference between pixels two columns apart
+export function brenner(image: GrayscaleImage): number {
+  const { data, width, height } = image;
+  if (width < 3) return 0;
+
+  let sum = 0;
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width - 2; x++) {
+      const diff = data[row + x + 2] - data[row + x];
+      sum += diff * diff;
+    }
+  }
+
+  return sum / ((width - 2) * height);
+}
+
+// In-place iterative radix-2 FFT; length must be a power of two
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+const FFT_MAX_SIZE = 256;
+// Frequencies above this fraction of Nyquist count as "high"
+const FFT_HIGH_FREQUENCY_CUTOFF = 0.25;
+
+/**
+ * Share of spectral energy (DC excluded) above the high-frequency cutoff, in percent.
+ * Computed on the largest centred power-of-two square crop, capped at FFT_MAX_SIZE.
+ */
+export function fftHighFrequencyRatio(image: GrayscaleImage): number {
+  const { data, width, height } = image;
+  let size = 1;
+  while (size * 2 <= Math.min(width, height, FFT_MAX_SIZE)) {
+    size *= 2;
+  }
+  if (size < 8) return 0;
+
+  const offsetX = Math.floor((width - size) / 2);
+  const offsetY = Math.floor((height - size) / 2);
+  const re = new Float64Array(size * size);
+  const im = new Float64Array(size * size);
+
+  let mean = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const value = data[(offsetY + y) * width + offsetX + x];
+      re[y * size + x] = value;
+      mean += value;
+    }
+  }
+  mean /= size * size;
+  for (let i = 0; i < re.length; i++) {
+    re[i] -= mean;
+  }
+
+  // Rows, then columns
+  const rowRe = new Float64Array(size);
+  const rowIm = new Float64Array(size);
+  for (let y = 0; y < size; y++) {
+    rowRe.set(re.subarray(y * size, (y + 1) * size));
+    rowIm.set(im.subarray(y * size, (y + 1) * size));
+    fft(rowRe, rowIm);
+    re.set(rowRe, y * size);
+    im.set(rowIm, y * size);
+  }
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      rowRe[y] = re[y * size + x];
+      rowIm[y] = im[y * size + x];
+    }
+    fft(rowRe, rowIm);
+    for (let y = 0; y < size; y++) {
+      re[y * size + x] = rowRe[y];
+      im[y * size + x] = rowIm[y];
+    }
+  }
+
+  const half = size / 2;
+  const cutoff = FFT_HIGH_FREQUENCY_CUTOFF * half;
+  let total = 0;
+  let high = 0;
+
+  for (let y = 0; y < size; y++) {
+    const fy = y < half ? y : y - size;
+    for (let x = 0; x < size; x++) {
+      const fx = x < half ? x : x - size;
+      const energy = re[y * size + x] ** 2 + im[y * size + x] ** 2;
+      total += energy;
+      if (Math.hypot(fx, fy) > cutoff) {
+        high += energy;
+      }
+    }
+  }
+
+  return total > 0 ? (high / total) * 100 : 0;
+}
+
+export type SharpnessMetricId =
+  | 'laplacian-mad'
+  | 'laplacian-variance'
+  | 'tenengrad'
+  | 'brenner'
+  | 'fft-high-frequency';
+
+export interface SharpnessMetric {
+  id: SharpnessMetricId;
+  label: string;
+  description: string;
+  compute: (image: GrayscaleImage) => number;
+}
+
+export const SHARPNESS_METRICS: Record<SharpnessMetricId, SharpnessMetric> = {
+  'laplacian-mad': {
+    id: 'laplacian-mad',
+    label: 'Laplacian (MAD)',
+    description: 'Mean absolute deviation of the Laplacian. Robust general-purpose default.',
+    compute: laplacianMeanAbsoluteDeviation,
+  },
+  'laplacian-variance': {
+    id: 'laplacian-variance',
+    label: 'Variance of Laplacian',
+    description: 'Classic focus measure. Strongly rewards fine, high-contrast texture.',
+    compute: laplacianVariance,
+  },
+  'tenengrad': {
+    id: 'tenengrad',
+    label: 'Tenengrad',
+    description: 'Sobel gradient energy. Less noise-sensitive; good on low-texture surfaces.',
+    compute: tenengrad,
+  },
+  'brenner': {
+    id: 'brenner',
+    label: 'Brenner',
+    description: 'Squared differences two pixels apart. Fast, favours horizontal detail.',
+    compute: brenner,
+  },
+  'fft-high-frequency': {
+    id: 'fft-high-frequency',
+    label: 'FFT high-frequency ratio',
+    description: 'Percentage of spectral energy in high frequencies. Independent of overall contrast.',
+    compute: fftHighFrequencyRatio,
+  },
+};
+
+export const DEFAULT_SHARPNESS_METRIC: SharpnessMetricId = 'laplacian-mad';
+
+export function computeSharpness(image: GrayscaleImage, metric: SharpnessMetricId = DEFAULT_SHARPNESS_METRIC): number {
+  return SHARPNESS_METRICS[metric].compute(image);
+}
+
+export interface MotionBlurEstimate {
+  // 0 = gradients equally strong in every direction, 1 = all edge energy in one orientation
+  anisotropy: number;
+  // Estimated direction of camera/subject motion in degrees, 0-180 (0 = horizontal)
+  direction: number;
+}
+
+/**
+ * Estimates directional motion blur from the image's gradient structure tensor.
+ * Motion blur smears edges along the motion, so gradient energy collapses onto the
+ * perpendicular orientation; a globally soft frame loses energy evenly and stays isotropic.
+ * Strongly oriented scenes (e.g. fences, façades) also read as anisotropic, so treat the
+ * result as a filter hint rather than ground truth.
+ */
+export function estimateMotionBlur(image: GrayscaleImage): MotionBlurEstimate {
+  let jxx = 0;
+  let jyy = 0;
+  let jxy = 0;
+  forEachSobelGradient(image, (gx, gy) => {
+    jxx += gx * gx;
+    jyy += gy * gy;
+    jxy += gx * gy;
+  });
+
+  const trace = jxx + jyy;
+  if (trace === 0) {
+    return { anisotropy: 0, direction: 0 };
+  }
+
+  const anisotropy = Math.sqrt((jxx - jyy) ** 2 + 4 * jxy * jxy) / trace;
+
+  // Dominant gradient orientation; the image y axis points down, so flip it for a conventional angle
+  const gradientAngle = 0.5 * Math.atan2(-2 * jxy, jxx - jyy) * 180 / Math.PI;
+  const direction = (((gradientAngle + 90) % 180) + 180) % 180;
+
+  return { anisotropy, direction };
+}
@@ -0,0 +1,133 @@
+import { DEFAULT_SHARPNESS_METRIC, type SharpnessMetricId } from './sharpnessMetrics';
+import { analyzeFrame, type FrameAnalysis } from './frameAnalysis';
+
+export type { FrameAnalysis };
+
+export interface SharpnessWorkerRequest {
+  id: number;
+  blob: Blob;
+  metric: SharpnessMetricId;
+}
+
+export type SharpnessWorkerResponse =
+  | { id: number; analysis: FrameAnalysis }
+  | { id: number; error: string };
+
+interface SharpnessTask {
+  id: number;
+  blob: Blob;
+  metric: SharpnessMetricId;
+  resolve: (analysis: FrameAnalysis) => void;
+  reject: (error: Error) => void;
+}
+
+function supportsSharpnessWorkers(): boolean {
+  return typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined';
+}
+
+function getDefaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency
+    ? navigator.hardwareConcurrency
+    : 4;
+  // Leave one core for the main thread and the extraction worker
+  return Math.max(1, cores - 1);
+}
+
+/**
+ * Analyzes frames in a pool of workers, one task per worker at a time.
+ * Browsers without worker canvas support run the same analysis on the main thread.
+ */
+export class SharpnessWorkerPool {
+  private workers: Worker[] = [];
+  private idleWorkers: Worker[] = [];
+  private queue: SharpnessTask[] = [];
+  private running = new Map<Worker, SharpnessTask>();
+  private nextTaskId = 0;
+  private terminated = false;
+
+  constructor(size: number = getDefaultPoolSize()) {
+    if (!supportsSharpnessWorkers()) return;
+
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(new URL('../workers/sharpness.worker.ts', import.meta.url));
+      worker.onmessage = (event: MessageEvent<SharpnessWorkerResponse>) => this.handleMessage(worker, event.data);
+      worker.onerror = (event) => this.handleWorkerError(worker, event);
+      this.workers.push(worker);
+      this.idleWorkers.push(worker);
+    }
+  }
+
+  analyze(blob: Blob, metric: SharpnessMetricId = DEFAULT_SHARPNESS_METRIC): Promise<FrameAnalysis> {
+    if (this.terminated) {
+      return Promise.reject(new DOMException('Sharpness scoring cancelled', 'AbortError'));
+    }
+
+    if (this.workers.length === 0) {
+      return analyzeFrame(blob, metric);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextTaskId++, blob, metric, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  terminate() {
+    if (this.terminated) return;
+    this.terminated = true;
+
+    this.workers.forEach(worker => worker.terminate());
+    this.workers = [];
+    this.idleWorkers = [];
+
+    const cancelled = new DOMException('Sharpness scoring cancelled', 'AbortError');
+    this.running.forEach(task => task.reject(cancelled));
+    this.queue.forEach(task => task.reject(cancelled));
+    this.running.clear();
+    this.queue = [];
+  }
+
+  private dispatch() {
+    while (this.idleWorkers.length > 0 && this.queue.length > 0) {
+      const worker = this.idleWorkers.pop()!;
+      const task = this.queue.shift()!;
+      this.running.set(worker, task);
+      worker.postMessage({ id: task.id, blob: task.blob, metric: task.metric } satisfies SharpnessWorkerRequest);
+    }
+  }
+
+  private handleMessage(worker: Worker, message: SharpnessWorkerResponse) {
+    const task = this.running.get(worker);
+    this.running.delete(worker);
+    this.idleWorkers.push(worker);
+
+    if (task && task.id === message.id) {
+      if ('error' in message) {
+        task.reject(new Error(`Failed to calculate sharpness score: ${message.error}`));
+      } else {
+        task.resolve(message.analysis);
+      }
+    }
+
+    this.dispatch();
+  }
+
+  // A crashed worker is dropped from the pool; its task fails but the rest keep going
+  private handleWorkerError(worker: Worker, event: ErrorEvent) {
+    const task = this.running.get(worker);
+    this.running.delete(worker);
+    this.workers = this.workers.filter(w => w !== worker);
+    this.idleWorkers = this.idleWorkers.filter(w => w !== worker);
+    worker.terminate();
+
+    task?.reject(new Error(`Sharpness worker failed: ${event.message || 'unknown error'}`));
+
+    if (this.workers.length === 0) {
+      const error = new Error('All sharpness workers failed');
+      this.queue.forEach(queued => queued.reject(error));
+      this.queue = [];
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import {
+  downloadFramesAsColmapProject,
+  downloadFramesAsTransformsProject,
+  guessCameraIntrinsics,
+  type FrameWithBlob
+} from '@/lib/streamingZipUtils';
+import { DEFAULT_OUTPUT_TRANSFORM } from '@/lib/outputTransform';
+import { type VideoMetadata } from '@/lib/videoUtils';
+
+// JSZip reads Blob contents through FileReader, which Node doesn't have
+class FakeFileReader {
+  onload: ((event: { target: { result: ArrayBuffer } }) => void) | null = null;
+  onerror: ((event: { target: { error: unknown } }) => void) | null = null;
+
+  readAsArrayBuffer(blob: Blob) {
+    blob.arrayBuffer().then(
+      result => this.onload?.({ target: { result } }),
+      error => this.onerror?.({ target: { error } })
+    );
+  }
+}
+
+const videoMetadata = { width: 1920, height: 1080, duration: 10, fps: 30 } as VideoMetadata;
+
+const frames: FrameWithBlob[] = [
+  { id: 'frame-00000', name: 'frame_00000.jpg', blob: new Blob(['a']), timestamp: 0, sharpnessScore: 12 },
+  { id: 'frame-00001', name: 'frame_00001.jpg', blob: new Blob(['b']), timestamp: 1500 },
+];
+
+describe('guessCameraIntrinsics', () => {
+  it('centres the principal point and uses 1.2x the longer side as focal length', () => {
+    expect(guessCameraIntrinsics(videoMetadata)).toEqual({ width: 1920, height: 1080, focalLength: 2304, cx: 960, cy: 540 });
+  });
+
+  it('moves the principal point with a crop but keeps the focal length', () => {
+    const transform = { ...DEFAULT_OUTPUT_TRANSFORM, crop: { x: 0, y: 0, width: 0.75, height: 1 } };
+
+    expect(guessCameraIntrinsics(videoMetadata, transform)).toEqual({ width: 1440, height: 1080, focalLength: 2304, cx: 960, cy: 540 });
+  });
+
+  it('scales with a resize and follows a rotation', () => {
+    const transform = { ...DEFAULT_OUTPUT_TRANSFORM, sizeMode: 'scale' as const, scale: 0.5, rotation: 90 as const };
+
+    expect(guessCameraIntrinsics(videoMetadata, transform)).toEqual({ width: 540, height: 960, focalLength: 1152, cx: 270, cy: 480 });
+  });
+});
+
+describe('project exports', () => {
+  let saved: Blob | null = null;
+
+  beforeEach(() => {
+    saved = null;
+    vi.stubGlobal('FileReader', FakeFileReader);
+    vi.stubGlobal('document', {
+      createElement: () => ({ click: () => {} }),
+      body: { appendChild: () => {}, removeChild: () => {} },
+    });
+    vi.spyOn(URL, 'createObjectURL').mockImplementation((blob) => {
+      saved = blob as Blob;
+      return 'blob:project';
+    });
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  async function readSavedZip(): Promise<JSZip> {
+    expect(saved).not.toBeNull();
+    return JSZip.loadAsync(await saved!.arrayBuffer());
+  }
+
+  it('lays out a COLMAP project with the guessed camera', async () => {
+    await downloadFramesAsColmapProject(frames, { videoMetadata });
+    const zip = await readSavedZip();
+
+    expect(Object.keys(zip.files)).toEqual(expect.arrayContaining([
+      'colmap-project/images/frame_00000.jpg',
+      'colmap-project/images/frame_00001.jpg',
+      'colmap-project/sparse/',
+      'colmap-project/database.db',
+      'colmap-project/run_colmap.sh',
+    ]));
+
+    const cameras = await zip.file('colmap-project/cameras.txt')!.async('string');
+    expect(cameras.trimEnd().split('\n').pop()).toBe('1 SIMPLE_RADIAL 1920 1080 2304 960 540 0');
+
+    const script = await zip.file('colmap-project/run_colmap.sh')!.async('string');
+    expect(script).toContain('--ImageReader.camera_params "2304,960,540,0"');
+  });
+
+  it('leaves the camera out of COLMAP projects without video metadata', async () => {
+    await downloadFramesAsColmapProject(frames);
+    const zip = await readSavedZip();
+
+    expect(zip.file('colmap-project/cameras.txt')).toBeNull();
+    expect(await zip.file('colmap-project/run_colmap.sh')!.async('string')).not.toContain('camera_params');
+  });
+
+  it('writes transforms.json with intrinsics, timestamps in seconds and sharpness', async () => {
+    await downloadFramesAsTransformsProject(frames, { videoMetadata });
+    const zip = await readSavedZip();
+    const transforms = JSON.parse(await zip.file('transforms-project/transforms.json')!.async('string'));
+
+    expect(transforms).toMatchObject({ camera_model: 'OPENCV', fl_x: 2304, fl_y: 2304, cx: 960, cy: 540, w: 1920, h: 1080 });
+    expect(transforms.frames).toEqual([
+      { file_path: 'images/frame_00000.jpg', timestamp: 0, sharpness: 12 },
+      { file_path: 'images/frame_00001.jpg', timestamp: 1.5, sharpness: null },
+    ]);
+  });
+
+  it('omits intrinsics and timestamps for image folders', async () => {
+    await downloadFramesAsTransformsProject(frames);
+    const zip = await readSavedZip();
+    const transforms = JSON.parse(await zip.file('transforms-project/transforms.json')!.async('string'));
+
+    expect(transforms).not.toHaveProperty('fl_x');
+    expect(transforms.frames[1]).toEqual({ file_path: 'images/frame_00001.jpg', sharpness: null });
+  });
+});
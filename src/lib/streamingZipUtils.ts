@@ -1,10 +1,14 @@
 import JSZip from 'jszip';
 import { sanitizeFilename } from './zipUtils';
+import { type VideoMetadata } from './videoUtils';
+import { DEFAULT_OUTPUT_TRANSFORM, getTransformedSize, mapSourcePoint, type OutputTransform } from './outputTransform';
+import { manifestToCsv, type ExportManifest } from './exportManifest';
 
 export interface StreamDownloadOptions {
   filename?: string;
   batchSize?: number;
   mode?: 'chunked' | 'all';
+  manifest?: ExportManifest;
   onProgress?: (progress: {
     framesProcessed: number;
     totalFrames: number;
@@ -20,6 +24,7 @@ export interface FrameWithBlob {
   name: string;
   blob: Blob;
   format?: string;
+  timestamp?: number;
   sharpnessScore?: number;
 }
 
@@ -35,6 +40,7 @@ export async function downloadFramesAsStreamedZip(
   const {
     filename = 'selected-frames.zip',
     batchSize = 200,
+    manifest,
     onProgress,
     onError,
   } = options;
@@ -71,6 +77,7 @@ export async function downloadFramesAsStreamedZip(
         frames,
         writer,
         batchSize,
+        manifest,
         (progress) => {
           bytesGenerated = progress.bytesGenerated;
           onProgress?.({
@@ -106,6 +113,7 @@ async function generateStreamedZip(
   frames: FrameWithBlob[],
   writer: { write: (chunk: Uint8Array | Uint8Array[]) => Promise<void>; close: () => Promise<void> },
   batchSize: number,
+  manifest: ExportManifest | undefined,
   onBatchProgress: (progress: {
     framesProcessed: number;
     bytesGenerated: number;
@@ -118,6 +126,10 @@ async function generateStreamedZip(
   let processedFrames = 0;
   let bytesWritten = 0;
 
+  if (manifest) {
+    addManifestFiles(zip, manifest);
+  }
+
   // Add frames in batches
   const totalBatches = Math.ceil(frames.length / batchSize);
 
@@ -189,6 +201,12 @@ async function generateStreamedZip(
   );
 }
 
+// manifest.json and manifest.csv at the archive root, next to the images
+function addManifestFiles(zip: JSZip, manifest: ExportManifest) {
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  zip.file('manifest.csv', manifestToCsv(manifest));
+}
+
 /**
  * Fallback function that uses the standard approach for browsers without StreamSaver
  * This will be used if service workers or StreamSaver is not available
@@ -199,12 +217,17 @@ export async function downloadFramesAsZipFallback(
   onProgress?: (progress: {
     framesProcessed: number;
     totalFrames: number;
-  }) => void
+  }) => void,
+  manifest?: ExportManifest
 ): Promise<void> {
   console.log(`[StreamingZip] Using fallback download for ${frames.length} frames`);
 
   const zip = new JSZip();
 
+  if (manifest) {
+    addManifestFiles(zip, manifest);
+  }
+
   // Add frames to ZIP
   for (let i = 0; i < frames.length; i++) {
     const frame = frames[i];
@@ -223,6 +246,16 @@ export async function downloadFramesAsZipFallback(
 
   // Generate and download ZIP
   const content = await zip.generateAsync({ type: 'blob' });
+  saveBlob(content, filename);
+  console.log('[StreamingZip] Fallback download complete');
+
+  onProgress?.({
+    framesProcessed: frames.length,
+    totalFrames: frames.length,
+  });
+}
+
+function saveBlob(content: Blob, filename: string) {
   const url = URL.createObjectURL(content);
   const link = document.createElement('a');
   link.href = url;
@@ -232,15 +265,7 @@ export async function downloadFramesAsZipFallback(
   document.body.removeChild(link);
 
   // Delay URL revocation to ensure download completes (critical for Windows 11)
-  setTimeout(() => {
-    URL.revokeObjectURL(url);
-    console.log('[StreamingZip] Fallback download complete');
-  }, 100);
-
-  onProgress?.({
-    framesProcessed: frames.length,
-    totalFrames: frames.length,
-  });
+  setTimeout(() => URL.revokeObjectURL(url), 100);
 }
 
 /**
@@ -269,7 +294,7 @@ export async function downloadFramesAsChunkedZip(
         currentBatch: 1,
         totalBatches: 1,
       });
-    });
+    }, options.manifest);
     return;
   }
 
@@ -290,7 +315,7 @@ export async function downloadFramesAsChunkedZip(
       : options.filename || 'selected-frames.zip';
 
     try {
-      // Download this chunk
+      // Download this chunk; every chunk carries the full manifest, so any one part describes the whole selection
       await downloadFramesAsZipFallback(chunkFrames, chunkFilename, (progress) => {
         // Calculate overall progress across all chunks
         const framesBeforeChunk = startIdx;
@@ -310,7 +335,7 @@ export async function downloadFramesAsChunkedZip(
         console.log(
           `[ChunkedZip] Chunk ${chunkNumber}/${totalChunks}: ${progressPercentage}% overall`
         );
-      });
+      }, options.manifest);
 
       console.log(`[ChunkedZip] Chunk ${chunkNumber}/${totalChunks} download complete`);
 
@@ -374,7 +399,8 @@ export async function downloadFramesSmartZip(
             currentBatch: 1,
             totalBatches: 1,
           });
-        }
+        },
+        options.manifest
       );
       return;
     } catch (error) {
@@ -384,3 +410,191 @@ export async function downloadFramesSmartZip(
     }
   }
 }
+
+export interface CameraIntrinsics {
+  width: number;
+  height: number;
+  focalLength: number;
+  cx: number;
+  cy: number;
+}
+
+/**
+ * Pinhole intrinsics guess from the source frame size alone: principal point at the centre and
+ * focal length 1.2x the longer side, the same prior COLMAP uses without EXIF data. The guess is
+ * made on the full source frame and then carried through the output transform, so cropping
+ * moves the principal point but leaves the focal length alone.
+ */
+export function guessCameraIntrinsics(
+  metadata: Pick<VideoMetadata, 'width' | 'height'>,
+  transform: OutputTransform = DEFAULT_OUTPUT_TRANSFORM
+): CameraIntrinsics {
+  const { width, height } = metadata;
+  const principalPoint = mapSourcePoint(width, height, transform, width / 2, height / 2);
+  return {
+    ...getTransformedSize(width, height, transform),
+    focalLength: 1.2 * Math.max(width, height) * principalPoint.scale,
+    cx: principalPoint.x,
+    cy: principalPoint.y,
+  };
+}
+
+export interface ProjectExportOptions {
+  filename?: string;
+  // Source of the intrinsics guess and frame timestamps; omitted for image folders,
+  // whose resolution may vary and whose frames have no source time
+  videoMetadata?: VideoMetadata | null;
+  // Transform the frames were extracted with, applied to the intrinsics guess
+  transform?: OutputTransform;
+  manifest?: ExportManifest;
+  onProgress?: (progress: {
+    framesProcessed: number;
+    totalFrames: number;
+  }) => void;
+}
+
+async function addProjectImages(
+  folder: JSZip,
+  frames: FrameWithBlob[],
+  onProgress: ProjectExportOptions['onProgress']
+) {
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    folder.file(sanitizeFilename(frame.name), frame.blob);
+
+    if (i % 100 === 0) {
+      onProgress?.({ framesProcessed: i, totalFrames: frames.length });
+      // Yield to prevent blocking
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+}
+
+function buildColmapScript(intrinsics: CameraIntrinsics | null): string {
+  const cameraArgs = intrinsics
+    ? ` \\
+  --ImageReader.camera_model SIMPLE_RADIAL \\
+  --ImageReader.camera_params "${intrinsics.focalLength},${intrinsics.cx},${intrinsics.cy},0"`
+    : '';
+
+  return [
+    '#!/usr/bin/env bash',
+    '# Sparse reconstruction of the exported frames. Requires COLMAP on PATH.',
+    'set -euo pipefail',
+    'cd "$(dirname "$0")"',
+    '',
+    'colmap feature_extractor \\',
+    '  --database_path database.db \\',
+    '  --image_path images \\',
+    `  --ImageReader.single_camera 1${cameraArgs}`,
+    '',
+    '# Frames come from a video, so matching neighbours in sequence is enough and much faster',
+    'colmap sequential_matcher \\',
+    '  --database_path database.db',
+    '',
+    'colmap mapper \\',
+    '  --database_path database.db \\',
+    '  --image_path images \\',
+    '  --output_path sparse',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Downloads frames as a ZIP laid out as a COLMAP project: images/, an empty sparse/,
+ * an empty database.db (SQLite treats a zero-length file as an empty database),
+ * a cameras.txt intrinsics guess and run_colmap.sh. Always a single archive, since
+ * COLMAP needs every image in one project.
+ */
+export async function downloadFramesAsColmapProject(
+  frames: FrameWithBlob[],
+  options: ProjectExportOptions = {}
+): Promise<void> {
+  const { filename = 'colmap-project.zip', videoMetadata, transform, manifest, onProgress } = options;
+
+  console.log(`[ColmapExport] Building COLMAP project for ${frames.length} frames`);
+
+  const zip = new JSZip();
+  const project = zip.folder('colmap-project')!;
+  const images = project.folder('images')!;
+  project.folder('sparse');
+  project.file('database.db', new Uint8Array(0));
+
+  const intrinsics = videoMetadata ? guessCameraIntrinsics(videoMetadata, transform) : null;
+  if (intrinsics) {
+    project.file('cameras.txt', [
+      '# Camera list with one line of data per camera:',
+      '#   CAMERA_ID, MODEL, WIDTH, HEIGHT, PARAMS[]',
+      '# Guessed from the video resolution; refine during reconstruction',
+      `1 SIMPLE_RADIAL ${intrinsics.width} ${intrinsics.height} ${intrinsics.focalLength} ${intrinsics.cx} ${intrinsics.cy} 0`,
+      '',
+    ].join('\n'));
+  }
+  project.file('run_colmap.sh', buildColmapScript(intrinsics), { unixPermissions: '755' });
+  if (manifest) {
+    addManifestFiles(project, manifest);
+  }
+
+  await addProjectImages(images, frames, onProgress);
+
+  // UNIX platform so run_colmap.sh keeps its executable bit
+  const content = await zip.generateAsync({ type: 'blob', platform: 'UNIX' });
+  saveBlob(content, filename);
+  console.log('[ColmapExport] Download complete');
+
+  onProgress?.({ framesProcessed: frames.length, totalFrames: frames.length });
+}
+
+/**
+ * Downloads frames with a nerfstudio-style transforms.json (also read by most 3DGS trainers).
+ * Poses are unknown at this point, so frames carry no transform_matrix; run pose estimation
+ * (e.g. ns-process-data or COLMAP) on images/ to fill them in. Timestamp (source time in seconds,
+ * video sources only) and sharpness are extra per-frame keys that trainers ignore.
+ */
+export async function downloadFramesAsTransformsProject(
+  frames: FrameWithBlob[],
+  options: ProjectExportOptions = {}
+): Promise<void> {
+  const { filename = 'transforms-project.zip', videoMetadata, transform, manifest, onProgress } = options;
+
+  console.log(`[TransformsExport] Building transforms.json project for ${frames.length} frames`);
+
+  const zip = new JSZip();
+  const project = zip.folder('transforms-project')!;
+  const images = project.folder('images')!;
+
+  const intrinsics = videoMetadata ? guessCameraIntrinsics(videoMetadata, transform) : null;
+  const transforms = {
+    camera_model: 'OPENCV',
+    ...(intrinsics && {
+      fl_x: intrinsics.focalLength,
+      fl_y: intrinsics.focalLength,
+      cx: intrinsics.cx,
+      cy: intrinsics.cy,
+      w: intrinsics.width,
+      h: intrinsics.height,
+      k1: 0,
+      k2: 0,
+      p1: 0,
+      p2: 0,
+    }),
+    frames: frames.map(frame => ({
+      file_path: `images/${sanitizeFilename(frame.name)}`,
+      // Frame timestamps are in ms; transforms.json uses seconds like the video time base
+      ...(videoMetadata && frame.timestamp !== undefined && { timestamp: frame.timestamp / 1000 }),
+      sharpness: frame.sharpnessScore ?? null,
+    })),
+  };
+  project.file('transforms.json', JSON.stringify(transforms, null, 2));
+  if (manifest) {
+    addManifestFiles(project, manifest);
+  }
+
+  await addProjectImages(images, frames, onProgress);
+
+  const content = await zip.generateAsync({ type: 'blob' });
+  saveBlob(content, filename);
+  console.log('[TransformsExport] Download complete');
+
+  onProgress?.({ framesProcessed: frames.length, totalFrames: frames.length });
+}
@@ -0,0 +1,110 @@
+import { Input, BlobSource, ALL_FORMATS, CanvasSink, EncodedPacketSink, type InputVideoTrack } from 'mediabunny';
+import { type ImageFormat } from './imageUtils';
+import { DEFAULT_OUTPUT_TRANSFORM, type OutputTransform } from './outputTransform';
+import { storeExtractedFrame, type ExtractedFrame } from './mediaBunnyExtraction';
+import type { ListedFrames } from './timestampList';
+
+// B-frames move a packet only a few places from its presentation position, so the packets
+// this far past the highest listed frame settle its timestamp
+const REORDER_MARGIN = 32;
+
+// Presentation timestamp of each listed frame number that exists, read from packet metadata
+// without decoding; frame 0 is the track's first frame, whatever its timestamp
+async function resolveFrameNumbers(
+  videoTrack: InputVideoTrack,
+  // Ascending
+  frameNumbers: number[],
+  signal?: AbortSignal
+): Promise<Map<number, number>> {
+  const sink = new EncodedPacketSink(videoTrack);
+  const needed = frameNumbers[frameNumbers.length - 1] + 1 + REORDER_MARGIN;
+  const timestamps: number[] = [];
+
+  let packet = await sink.getFirstPacket({ metadataOnly: true });
+  while (packet && timestamps.length < needed) {
+    if (signal?.aborted) {
+      throw new DOMException('Frame extraction cancelled', 'AbortError');
+    }
+    timestamps.push(packet.timestamp);
+    packet = await sink.getNextPacket(packet, { metadataOnly: true });
+  }
+
+  timestamps.sort((a, b) => a - b);
+  return new Map(frameNumbers
+    .filter(frame => frame < timestamps.length)
+    .map(frame => [timestamps[frame], frame]));
+}
+
+/**
+ * Extracts exactly the listed frames: those shown at the given timestamps, or the given frame
+ * numbers of the track. Timestamps that resolve to the same decoded frame yield it once. With
+ * `originalFps`, frames are named by their source frame number instead of sequentially.
+ */
+export async function extractAtTimestamps(
+  videoFile: File,
+  listedFrames: ListedFrames,
+  format: ImageFormat,
+  quality: number,
+  onProgress: (current: number, total: number) => void,
+  signal?: AbortSignal,
+  prefix: string = '',
+  transform: OutputTransform = DEFAULT_OUTPUT_TRANSFORM,
+  originalFps?: number
+): Promise<ExtractedFrame[]> {
+  const input = new Input({
+    formats: ALL_FORMATS,
+    source: new BlobSource(videoFile)
+  });
+
+  try {
+    const videoTrack = await input.getPrimaryVideoTrack();
+    if (!videoTrack) {
+      throw new Error('No video track found in video file');
+    }
+
+    if (signal?.aborted) {
+      throw new DOMException('Frame extraction cancelled', 'AbortError');
+    }
+
+    const frameNumberAt = listedFrames.unit === 'frames'
+      ? await resolveFrameNumbers(videoTrack, listedFrames.values, signal)
+      : null;
+    const timestamps = frameNumberAt ? [...frameNumberAt.keys()] : listedFrames.values;
+    if (timestamps.length === 0) {
+      throw new Error('None of the listed frames are in the video');
+    }
+
+    const sink = new CanvasSink(videoTrack);
+    const total = timestamps.length;
+    const frames: ExtractedFrame[] = [];
+    let previousTimestamp: number | null = null;
+    let processed = 0;
+
+    for await (const result of sink.canvasesAtTimestamps(timestamps)) {
+      if (signal?.aborted) {
+        throw new DOMException('Frame extraction cancelled', 'AbortError');
+      }
+
+      processed++;
+
+      // Null before the first frame; repeated when two requested times fall within one frame
+      if (result && result.timestamp !== previousTimestamp) {
+        previousTimestamp = result.timestamp;
+
+        const frameNumber = !originalFps ? frames.length
+          : frameNumberAt?.get(result.timestamp) ?? Math.round(result.timestamp * originalFps);
+        frames.push(await storeExtractedFrame(result.canvas, frameNumber, result.timestamp, format, quality, prefix, transform));
+      }
+
+      onProgress(processed, total);
+    }
+
+    if (frames.length === 0) {
+      throw new Error('No frames were successfully extracted');
+    }
+
+    return frames;
+  } finally {
+    input.dispose();
+  }
+}
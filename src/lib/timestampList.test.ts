@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { parseTimestampList, toListedFrames } from '@/lib/timestampList';
+
+describe('parseTimestampList', () => {
+  it('reads numbers one per line, comma or space separated', () => {
+    expect(parseTimestampList('1\n2.5\n4')).toEqual({ values: [1, 2.5, 4], unit: null });
+    expect(parseTimestampList('1, 2.5, 4')).toEqual({ values: [1, 2.5, 4], unit: null });
+    expect(parseTimestampList('12 48 96\n120')).toEqual({ values: [12, 48, 96, 120], unit: null });
+  });
+
+  it('reads timecodes as seconds', () => {
+    expect(parseTimestampList('0:05\n1:02.5\n1:00:00').values).toEqual([5, 62.5, 3600]);
+  });
+
+  it('returns an empty list for blank text', () => {
+    expect(parseTimestampList('  \n ')).toEqual({ values: [], unit: null });
+  });
+
+  it('takes the column and unit from a CSV header', () => {
+    expect(parseTimestampList('label,frame\nstart,10\nend,250')).toEqual({ values: [10, 250], unit: 'frames' });
+    expect(parseTimestampList('time_ms;note\n1500;a\n2500;b')).toEqual({ values: [1.5, 2.5], unit: 'seconds' });
+  });
+
+  it('uses the first column of headerless multi-column rows', () => {
+    expect(parseTimestampList('1.5,0.9\n3,0.4').values).toEqual([1.5, 3]);
+  });
+
+  it('reads JSON arrays of numbers, timecodes and objects', () => {
+    expect(parseTimestampList('[1, "0:02", 3]')).toEqual({ values: [1, 2, 3], unit: null });
+    expect(parseTimestampList('{"frames": [5, 10]}')).toEqual({ values: [5, 10], unit: 'frames' });
+    expect(parseTimestampList('[{"timestamp_ms": 500}, {"timestamp_ms": 1000}]')).toEqual({ values: [0.5, 1], unit: 'seconds' });
+  });
+
+  it('names the first entry it cannot read', () => {
+    expect(() => parseTimestampList('1\n2\nabc')).toThrow('Could not read "abc" on line 3');
+    expect(() => parseTimestampList('frame\n1\nx')).toThrow('Could not read "x" on line 3');
+    expect(() => parseTimestampList('[1, true]')).toThrow('Could not read entry 2 of the JSON timestamp list');
+    expect(() => parseTimestampList('[1,')).toThrow('Timestamp list is not valid JSON');
+    expect(() => parseTimestampList('{"count": 2}')).toThrow('JSON timestamp list must be an array');
+  });
+});
+
+describe('toListedFrames', () => {
+  it('sorts, de-duplicates and drops times outside the video', () => {
+    const list = { values: [4, 1, 4, -1, 10, 2], unit: null };
+
+    expect(toListedFrames(list, 'seconds', 10)).toEqual({ unit: 'seconds', values: [1, 2, 4] });
+  });
+
+  it('rounds frame numbers down and drops negative ones', () => {
+    const list = { values: [30.7, 5, 30, -2], unit: null };
+
+    expect(toListedFrames(list, 'frames', 10)).toEqual({ unit: 'frames', values: [5, 30] });
+  });
+
+  it('prefers the unit named by the list', () => {
+    const list = { values: [250, 12], unit: 'frames' as const };
+
+    expect(toListedFrames(list, 'seconds', 10)).toEqual({ unit: 'frames', values: [12, 250] });
+  });
+});
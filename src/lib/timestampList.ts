@@ -0,0 +1,162 @@
+// Frame lists handed over from other tools: numbers or timecodes typed or pasted one per line,
+// or separated by commas or spaces, CSV with a time or frame column, or JSON arrays of numbers or objects
+
+export type TimestampUnit = 'seconds' | 'frames';
+
+export interface ParsedTimestampList {
+  values: number[];
+  // Unit named by a CSV header or JSON key; null when the list doesn't say
+  unit: TimestampUnit | null;
+}
+
+const FRAME_KEYS = ['frame', 'frames', 'frame_number', 'framenumber', 'frame_index', 'frameindex', 'frame_idx'];
+const SECOND_KEYS = ['timestamp', 'time', 'times', 'seconds', 'sec', 'pts_time'];
+const MILLISECOND_KEYS = ['timestamp_ms', 'time_ms', 'ms'];
+
+function getKeyUnit(key: string): { unit: TimestampUnit; scale: number } | null {
+  const normalized = key.trim().toLowerCase();
+  if (FRAME_KEYS.includes(normalized)) return { unit: 'frames', scale: 1 };
+  if (SECOND_KEYS.includes(normalized)) return { unit: 'seconds', scale: 1 };
+  if (MILLISECOND_KEYS.includes(normalized)) return { unit: 'seconds', scale: 0.001 };
+  return null;
+}
+
+// Plain numbers, or M:SS(.ss) / H:MM:SS(.sss) timecodes in seconds
+function parseValue(token: string): number | null {
+  const text = token.trim().replace(/^"(.*)"$/, '$1');
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return parseFloat(text);
+  }
+
+  const timecode = text.match(/^(?:(\d+):)?(\d+):(\d+(?:\.\d+)?)$/);
+  if (timecode) {
+    const [, hours, minutes, seconds] = timecode;
+    return (hours ? parseInt(hours) * 3600 : 0) + parseInt(minutes) * 60 + parseFloat(seconds);
+  }
+
+  return null;
+}
+
+function parseJsonList(text: string): ParsedTimestampList {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Timestamp list is not valid JSON');
+  }
+
+  // A bare array, or the first array inside an object such as { "frames": [...] }
+  let unit: TimestampUnit | null = null;
+  let items: unknown[] | undefined;
+  if (Array.isArray(data)) {
+    items = data;
+  } else if (data && typeof data === 'object') {
+    const entry = Object.entries(data).find(([, value]) => Array.isArray(value));
+    if (entry) {
+      items = entry[1] as unknown[];
+      unit = getKeyUnit(entry[0])?.unit ?? null;
+    }
+  }
+  if (!items) {
+    throw new Error('JSON timestamp list must be an array');
+  }
+
+  const values = items.map((item, index) => {
+    if (typeof item === 'number') return item;
+    if (typeof item === 'string') {
+      const value = parseValue(item);
+      if (value !== null) return value;
+    } else if (item && typeof item === 'object') {
+      for (const [key, value] of Object.entries(item)) {
+        const keyUnit = getKeyUnit(key);
+        if (keyUnit && typeof value === 'number') {
+          unit = keyUnit.unit;
+          return value * keyUnit.scale;
+        }
+      }
+    }
+    throw new Error(`Could not read entry ${index + 1} of the JSON timestamp list`);
+  });
+
+  return { values, unit };
+}
+
+function parseDelimitedList(text: string): ParsedTimestampList {
+  // Lines without a CSV delimiter may still be space separated, e.g. "12 48 96"
+  const rows = text.split(/\r?\n/)
+    .map(line => (/[,;\t]/.test(line) ? line.split(/[,;\t]/) : line.trim().split(/\s+/)).map(token => token.trim()))
+    .filter(tokens => tokens.some(token => token !== ''));
+
+  // A first row with unreadable tokens is a CSV header naming the column to use
+  let unit: TimestampUnit | null = null;
+  let scale = 1;
+  let column: number | null = null;
+  let firstLine = 1;
+  if (rows.length > 1 && rows[0].some(token => token !== '' && parseValue(token) === null)) {
+    const header = rows.shift()!;
+    firstLine = 2;
+    const index = header.findIndex(key => getKeyUnit(key) !== null);
+    column = Math.max(0, index);
+    if (index >= 0) {
+      ({ unit, scale } = getKeyUnit(header[index])!);
+    }
+  } else if (rows.length > 1 && rows.every(tokens => tokens.length > 1)) {
+    // Multi-column rows without a header: the first column holds the times
+    column = 0;
+  }
+
+  const values: number[] = [];
+  rows.forEach((tokens, row) => {
+    for (const token of column === null ? tokens : [tokens[column] ?? '']) {
+      if (token === '') continue;
+      const value = parseValue(token);
+      if (value === null) {
+        throw new Error(`Could not read "${token}" on line ${row + firstLine}`);
+      }
+      values.push(value * scale);
+    }
+  });
+
+  return { values, unit };
+}
+
+/**
+ * Reads a list of timestamps or frame numbers. Throws an Error naming the first entry that
+ * can't be read.
+ */
+export function parseTimestampList(text: string): ParsedTimestampList {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { values: [], unit: null };
+  }
+
+  return trimmed.startsWith('[') || trimmed.startsWith('{')
+    ? parseJsonList(trimmed)
+    : parseDelimitedList(trimmed);
+}
+
+// Sorted, de-duplicated list entries in a single unit
+export interface ListedFrames {
+  unit: TimestampUnit;
+  // Seconds inside the video, or source frame numbers counted in presentation order from 0
+  values: number[];
+}
+
+/**
+ * Normalizes a parsed list to seconds inside the video or whole frame numbers. `unit` applies
+ * when the list itself doesn't name one. Frame numbers are resolved against the track's real
+ * timestamps at extraction, see extractAtTimestamps, since a nominal frame rate is wrong for
+ * variable-frame-rate footage and videos that don't start at 0.
+ */
+export function toListedFrames(
+  list: ParsedTimestampList,
+  unit: TimestampUnit,
+  duration: number
+): ListedFrames {
+  const listUnit = list.unit ?? unit;
+  const values = listUnit === 'frames'
+    ? list.values.map(frame => Math.floor(frame)).filter(frame => frame >= 0)
+    : list.values.filter(time => time >= 0 && time < duration);
+
+  return { unit: listUnit, values: [...new Set(values)].sort((a, b) => a - b) };
+}
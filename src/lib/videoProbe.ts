@@ -0,0 +1,197 @@
+import { Input, BlobSource, ALL_FORMATS, EncodedPacketSink, type InputVideoTrack, type Rotation, type TrackType } from 'mediabunny';
+
+export interface ProbedTrack {
+  id: number;
+  type: TrackType;
+  codec: string | null;
+  language: string;
+  // Video tracks
+  width?: number;
+  height?: number;
+  // Audio tracks
+  channels?: number;
+  sampleRate?: number;
+}
+
+/**
+ * What the container headers say about a video, read without decoding or copying the file.
+ */
+export interface VideoProbe {
+  container: string;
+  // MediaBunny's codec id ('avc', 'hevc', 'vp9', ...) and the full WebCodecs codec string
+  codec: string;
+  codecString: string | null;
+  profile: string | null;
+  bitDepth: number | null;
+  colorSpace: VideoColorSpaceInit;
+  hdr: boolean;
+  codedWidth: number;
+  codedHeight: number;
+  // After rotation
+  displayWidth: number;
+  displayHeight: number;
+  rotation: Rotation;
+  // Average over the first packets; for VFR footage the actual intervals vary around it
+  fps: number;
+  variableFrameRate: boolean;
+  // Bits per second of the video track, averaged like fps
+  bitrate: number;
+  // End of the last video packet, in seconds
+  duration: number;
+  tracks: ProbedTrack[];
+}
+
+// Enough packets for a stable average without scanning multi-gigabyte files end to end
+const STATS_SAMPLE_PACKETS = 600;
+const VFR_SAMPLE_PACKETS = 240;
+
+const AVC_PROFILES: Record<number, string> = {
+  66: 'Baseline',
+  77: 'Main',
+  88: 'Extended',
+  100: 'High',
+  110: 'High 10',
+  122: 'High 4:2:2',
+  244: 'High 4:4:4',
+};
+const HEVC_PROFILES: Record<number, string> = {
+  1: 'Main',
+  2: 'Main 10',
+  3: 'Main Still Picture',
+  4: 'Range Extensions',
+};
+const AV1_PROFILES: Record<number, string> = {
+  0: 'Main',
+  1: 'High',
+  2: 'Professional',
+};
+
+/**
+ * Profile and bit depth encoded in a WebCodecs codec string, where it says. Formats that
+ * allow several bit depths per profile (e.g. AVC High 4:2:2) report null.
+ */
+export function describeCodecString(codecString: string): { profile: string | null; bitDepth: number | null } {
+  const [fourcc, ...parts] = codecString.split('.');
+
+  switch (fourcc) {
+    case 'avc1':
+    case 'avc3': {
+      const profileIdc = parseInt(parts[0]?.slice(0, 2) ?? '', 16);
+      return {
+        profile: AVC_PROFILES[profileIdc] ?? null,
+        bitDepth: profileIdc === 110 ? 10 : [66, 77, 88, 100].includes(profileIdc) ? 8 : null,
+      };
+    }
+    case 'hvc1':
+    case 'hev1': {
+      // The profile may carry a profile-space prefix letter, e.g. "A1"
+      const profileIdc = parseInt(parts[0]?.replace(/^[A-C]/, '') ?? '');
+      return {
+        profile: HEVC_PROFILES[profileIdc] ?? null,
+        bitDepth: profileIdc === 1 ? 8 : profileIdc === 2 ? 10 : null,
+      };
+    }
+    case 'vp09': {
+      const profile = parseInt(parts[0] ?? '');
+      const bitDepth = parseInt(parts[2] ?? '');
+      return {
+        profile: isNaN(profile) ? null : `Profile ${profile}`,
+        bitDepth: isNaN(bitDepth) ? null : bitDepth,
+      };
+    }
+    case 'av01': {
+      const bitDepth = parseInt(parts[2] ?? '');
+      return {
+        profile: AV1_PROFILES[parseInt(parts[0] ?? '')] ?? null,
+        bitDepth: isNaN(bitDepth) ? null : bitDepth,
+      };
+    }
+    case 'vp8':
+      return { profile: null, bitDepth: 8 };
+    default:
+      return { profile: null, bitDepth: null };
+  }
+}
+
+// Irregular frame intervals in presentation order. B-frames reorder packets, so timestamps
+// are sorted first. A few stray intervals (a dropped frame) don't make footage VFR.
+async function detectVariableFrameRate(videoTrack: InputVideoTrack): Promise<boolean> {
+  const sink = new EncodedPacketSink(videoTrack);
+  const timestamps: number[] = [];
+
+  let packet = await sink.getFirstPacket({ metadataOnly: true });
+  while (packet && timestamps.length < VFR_SAMPLE_PACKETS) {
+    timestamps.push(packet.timestamp);
+    packet = await sink.getNextPacket(packet, { metadataOnly: true });
+  }
+
+  timestamps.sort((a, b) => a - b);
+  const intervals = timestamps.slice(1)
+    .map((timestamp, index) => timestamp - timestamps[index])
+    .filter(interval => interval > 0);
+  if (intervals.length < 2) return false;
+
+  const median = [...intervals].sort((a, b) => a - b)[Math.floor(intervals.length / 2)];
+  const irregular = intervals.filter(interval => Math.abs(interval - median) > median * 0.1).length;
+  return irregular / intervals.length > 0.02;
+}
+
+/**
+ * Reads the container headers with MediaBunny. Only the byte ranges it needs are read from
+ * the file. Throws if the container can't be parsed or has no video track.
+ */
+export async function probeVideo(file: File): Promise<VideoProbe> {
+  const input = new Input({
+    formats: ALL_FORMATS,
+    source: new BlobSource(file)
+  });
+
+  try {
+    const videoTrack = await input.getPrimaryVideoTrack();
+    if (!videoTrack) {
+      throw new Error('No video track found in video file');
+    }
+
+    const [format, codecString, colorSpace, hdr, stats, duration, variableFrameRate, tracks] = await Promise.all([
+      input.getFormat(),
+      videoTrack.getCodecParameterString(),
+      videoTrack.getColorSpace(),
+      videoTrack.hasHighDynamicRange(),
+      videoTrack.computePacketStats(STATS_SAMPLE_PACKETS),
+      videoTrack.computeDuration(),
+      detectVariableFrameRate(videoTrack),
+      input.getTracks(),
+    ]);
+
+    const { profile, bitDepth } = codecString ? describeCodecString(codecString) : { profile: null, bitDepth: null };
+
+    return {
+      container: format.name,
+      codec: videoTrack.codec ?? 'unknown',
+      codecString,
+      profile,
+      bitDepth,
+      colorSpace,
+      hdr,
+      codedWidth: videoTrack.codedWidth,
+      codedHeight: videoTrack.codedHeight,
+      displayWidth: videoTrack.displayWidth,
+      displayHeight: videoTrack.displayHeight,
+      rotation: videoTrack.rotation,
+      fps: stats.averagePacketRate,
+      variableFrameRate,
+      bitrate: stats.averageBitrate,
+      duration,
+      tracks: tracks.map(track => ({
+        id: track.id,
+        type: track.type,
+        codec: track.codec,
+        language: track.languageCode,
+        ...(track.isVideoTrack() && { width: track.displayWidth, height: track.displayHeight }),
+        ...(track.isAudioTrack() && { channels: track.numberOfChannels, sampleRate: track.sampleRate }),
+      })),
+    };
+  } finally {
+    input.dispose();
+  }
+}
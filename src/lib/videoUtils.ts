@@ -1,37 +1,83 @@
-import { getFfmpeg } from './ffmpegWasm';
-import { fetchFile } from '@ffmpeg/util';
+import { getFfmpeg, mountInputFile, unmountInputFile } from './ffmpegWasm';
+import type { Rotation } from 'mediabunny';
+import { probeVideo, type VideoProbe } from './videoProbe';
 
 export interface VideoMetadata {
   title: string;
   duration: number;
+  // Display dimensions, i.e. after the rotation below
   width: number;
   height: number;
+  // Clockwise rotation from the container metadata (portrait phone footage is usually 90)
+  rotation: Rotation;
   fps: number;
   totalFrames: number;
   thumbnailUrl: string;
   codec: string;
+  // Full container probe; null when the file was only readable through FFmpeg
+  probe: VideoProbe | null;
 }
 
-// Maximum file size (1.9GB in bytes)
-const MAX_FILE_SIZE = 1.9 * 1024 * 1024 * 1024;
+function normalizeRotation(degrees: number): Rotation {
+  const rounded = ((Math.round(degrees / 90) * 90) % 360 + 360) % 360;
+  return rounded as Rotation;
+}
+
+// FFmpeg logs either a legacy `rotate` tag or a display matrix, which is counter-clockwise
+function parseFfmpegRotation(streamInfo: string): Rotation | null {
+  const displayMatrixMatch = streamInfo.match(/rotation of (-?[\d.]+) degrees/);
+  if (displayMatrixMatch) {
+    return normalizeRotation(-parseFloat(displayMatrixMatch[1]));
+  }
 
+  const rotateTagMatch = streamInfo.match(/rotate\s*:\s*(-?\d+)/);
+  return rotateTagMatch ? normalizeRotation(parseInt(rotateTagMatch[1])) : null;
+}
+
+/**
+ * Reads the video's metadata from its container headers, falling back to FFmpeg for
+ * containers MediaBunny can't parse.
+ */
 export async function getVideoMetadata(file: File): Promise<VideoMetadata> {
-  // Check file size first
-  if (file.size > MAX_FILE_SIZE) {
-    throw new Error(`Video file is too large (${(file.size / (1024 * 1024 * 1024)).toFixed(1)}GB). Maximum supported size is 1.9GB.`);
+  let probe: VideoProbe | null = null;
+  try {
+    probe = await probeVideo(file);
+  } catch (error) {
+    console.warn('Container probe failed, falling back to FFmpeg:', error);
   }
 
+  if (!probe || probe.duration <= 0) {
+    return getVideoMetadataWithFfmpeg(file);
+  }
+
+  // Packet rate is 0 for single-frame tracks
+  const fps = probe.fps > 0 ? probe.fps : 30;
+
+  return {
+    title: file.name,
+    duration: probe.duration,
+    width: probe.displayWidth,
+    height: probe.displayHeight,
+    rotation: probe.rotation,
+    fps: Math.round(fps * 1000) / 1000,
+    totalFrames: Math.round(probe.duration * fps),
+    thumbnailUrl: '',
+    codec: probe.codec,
+    probe
+  };
+}
+
+// Scrapes `ffmpeg -i` output; FFmpeg reads the file in place through a WORKERFS mount
+async function getVideoMetadataWithFfmpeg(file: File): Promise<VideoMetadata> {
   try {
     // Get metadata using ffmpeg
     const ffmpeg = await getFfmpeg();
-    const inputFileName = 'input' + file.name.substring(file.name.lastIndexOf('.'));
-    
-    // Use a stream-based approach for reading the file
+
+    let inputPath: string;
     try {
-      const fileData = await fetchFile(file);
-      await ffmpeg.writeFile(inputFileName, fileData);
+      inputPath = await mountInputFile(ffmpeg, file);
     } catch {
-      throw new Error('Could not read video file. The file may be too large or corrupted.');
+      throw new Error('Could not read video file. The file may be corrupted.');
     }
 
     // Get stream information
@@ -41,14 +87,13 @@ export async function getVideoMetadata(file: File): Promise<VideoMetadata> {
     });
 
     try {
-      await ffmpeg.exec(['-i', inputFileName]);
+      await ffmpeg.exec(['-i', inputPath]);
     } catch {
       // This error is expected as ffmpeg -i only shows stream info
       // We'll parse the stream info next
     }
 
-    // Clean up FFmpeg file
-    await ffmpeg.deleteFile(inputFileName);
+    await unmountInputFile(ffmpeg);
 
     // Parse metadata from FFmpeg output
     const fpsMatch = streamInfo.match(/([0-9]+(?:\.[0-9]+)?|\d+\/\d+)\s*fps/);
@@ -78,9 +123,13 @@ export async function getVideoMetadata(file: File): Promise<VideoMetadata> {
       }
     }
 
-    // Parse resolution
-    const width = parseInt(resolutionMatch[1]);
-    const height = parseInt(resolutionMatch[2]);
+    // Parse resolution; FFmpeg reports the coded size, so swap it for quarter-turn rotations
+    const rotation = parseFfmpegRotation(streamInfo) ?? 0;
+    const codedWidth = parseInt(resolutionMatch[1]);
+    const codedHeight = parseInt(resolutionMatch[2]);
+    const isQuarterTurn = rotation === 90 || rotation === 270;
+    const width = isQuarterTurn ? codedHeight : codedWidth;
+    const height = isQuarterTurn ? codedWidth : codedHeight;
 
     // Parse duration
     const duration = parseInt(durationMatch[1]) * 3600 + // hours
@@ -100,10 +149,12 @@ export async function getVideoMetadata(file: File): Promise<VideoMetadata> {
       duration,
       width,
       height,
+      rotation,
       fps: Math.round(fps * 1000) / 1000,
       totalFrames,
       thumbnailUrl: '',
-      codec
+      codec,
+      probe: null
     };
   } catch (error) {
     throw error; // Propagate the error without wrapping it
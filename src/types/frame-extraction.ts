@@ -1,5 +1,10 @@
 import { type VideoMetadata } from '@/lib/videoUtils';
 import { type FrameData } from '@/types/frame';
+import { type SharpnessMetricId, DEFAULT_SHARPNESS_METRIC } from '@/lib/sharpnessMetrics';
+import { type ExportManifest } from '@/lib/exportManifest';
+import { IMAGE_FORMATS, type ImageFormat } from '@/lib/imageUtils';
+import { DEFAULT_OUTPUT_TRANSFORM, type OutputTransform } from '@/lib/outputTransform';
+import { type TimestampUnit } from '@/lib/timestampList';
 
 export interface ProgressInfo {
   current: number;
@@ -8,30 +13,75 @@ export interface ProgressInfo {
   estimatedTimeMs?: number;
 }
 
+export type ExtractionMode = 'interval' | 'scene-change' | 'keyframes' | 'every-frame' | 'timestamps';
+
+// One window of the video to extract from; several ranges are extracted as a single job
+export interface TimeRange {
+  start: number;
+  end: number;
+  // Overrides the extraction fps within this range (interval mode)
+  fps?: number;
+  // Carried onto every frame extracted from the range
+  label: string;
+}
+
+export type SelectionMode = 'batched' | 'manual' | 'best-n' | 'top-percent' | 'motion' | 'overlap';
+
+// Layout of the downloaded archive: plain images, or a project ready for a reconstruction tool
+export type ExportPreset = 'zip' | 'colmap' | 'transforms';
+
+// Relative weights of each term in the composite quality score; 0 disables a term
+export interface QualityWeights {
+  sharpness: number;
+  exposure: number;
+  noise: number;
+  motionBlur: number;
+}
+
 export interface ExtractPageState {
   videoFile: File | null;
   videoMetadata: VideoMetadata | null;
   fps: number;
-  format: 'jpeg' | 'png';
+  format: ImageFormat;
+  // Encoder quality (0-1) remembered per format, so switching formats doesn't lose a tuned value
+  formatQuality: Record<ImageFormat, number>;
+  outputTransform: OutputTransform;
   prefix: string;
   useOriginalFrameRate: boolean;
+  extractionMode: ExtractionMode;
+  sceneThreshold: number;
+  // 'every-frame' mode keeps one in this many decoded frames
+  frameStep: number;
+  // Raw list for 'timestamps' mode as typed, pasted or loaded, and the unit of bare numbers
+  timestampList: string;
+  timestampUnit: TimestampUnit;
+  sharpnessMetric: SharpnessMetricId;
   frames: FrameData[];
   processing: boolean;
   loadingMetadata: boolean;
   videoThumbnailUrl: string | null;
   extractionProgress: ProgressInfo;
   sharpnessProgress: ProgressInfo;
-  selectionMode: 'batched' | 'manual' | 'best-n' | 'top-percent';
+  selectionMode: SelectionMode;
   percentageThreshold: number;
   batchSize: number;
   batchBuffer: number;
   bestNCount: number;
   bestNMinGap: number;
+  motionBaseline: number;
+  overlapRange: [number, number];
+  excludeMotionBlur: boolean;
+  maxMotionBlur: number;
+  suppressDuplicates: boolean;
+  qualityWeights: QualityWeights;
+  exportPreset: ExportPreset;
+  // Manifest from a previous export, applied to the next frames extracted or loaded
+  importedManifest: ExportManifest | null;
   error: string | null;
   showFrames: boolean;
   showClearCacheDialog: boolean;
   showDownloadOptionsDialog?: boolean;
-  timeRange: [number, number];
+  timeRanges: TimeRange[];
   imageFiles: FileList | null;
   isImageMode: boolean;
   isDownloading?: boolean;
@@ -41,6 +91,7 @@ export interface ExtractPageState {
 export interface ChartData {
   name: string;
   sharpnessScore: number;
+  qualityScore: number;
   selected: boolean;
 }
 
@@ -49,8 +100,21 @@ export const defaultState: ExtractPageState = {
   videoMetadata: null,
   fps: 10,
   format: 'jpeg',
+  formatQuality: {
+    jpeg: IMAGE_FORMATS.jpeg.defaultQuality,
+    png: IMAGE_FORMATS.png.defaultQuality,
+    webp: IMAGE_FORMATS.webp.defaultQuality,
+    avif: IMAGE_FORMATS.avif.defaultQuality,
+  },
+  outputTransform: DEFAULT_OUTPUT_TRANSFORM,
   prefix: '',
   useOriginalFrameRate: false,
+  extractionMode: 'interval',
+  sceneThreshold: 15,
+  frameStep: 1,
+  timestampList: '',
+  timestampUnit: 'seconds',
+  sharpnessMetric: DEFAULT_SHARPNESS_METRIC,
   frames: [],
   processing: false,
   loadingMetadata: false,
@@ -63,10 +127,19 @@ export const defaultState: ExtractPageState = {
   batchBuffer: 1,
   bestNCount: 300,
   bestNMinGap: 5,
+  motionBaseline: 10,
+  overlapRange: [60, 80],
+  excludeMotionBlur: false,
+  maxMotionBlur: 50,
+  suppressDuplicates: false,
+  // Sharpness only, so selection matches ranking by the raw score until weights are changed
+  qualityWeights: { sharpness: 1, exposure: 0, noise: 0, motionBlur: 0 },
+  exportPreset: 'zip',
+  importedManifest: null,
   error: null,
   showFrames: false,
   showClearCacheDialog: false,
-  timeRange: [0, 0],
+  timeRanges: [],
   imageFiles: null,
   isImageMode: false,
 };
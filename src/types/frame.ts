@@ -1,9 +1,29 @@
+import { type SharpnessMetricId } from '@/lib/sharpnessMetrics';
+import { type FeatureSet } from '@/lib/featureMatching';
+
 export interface FrameMetadata {
   id: string;
   name: string;
   timestamp: number;
   format: string;
+  // Label of the time range the frame was extracted from
+  rangeLabel?: string;
   sharpnessScore?: number;
+  sharpnessMetric?: SharpnessMetricId;
+  // Directional blur estimate: 0-1 anisotropy and motion direction in degrees
+  blurAnisotropy?: number;
+  blurDirection?: number;
+  // Exposure and noise, see ExposureMetrics
+  highlightClipping?: number;
+  shadowClipping?: number;
+  meanLuminance?: number;
+  noiseLevel?: number;
+  // 64-bit dHash as hex, and the near-duplicate run this frame belongs to (if any)
+  perceptualHash?: string;
+  duplicateGroup?: number;
+  // Camera/scene motion since the previous frame, as a percentage of frame width
+  motionMagnitude?: number;
+  // Manual pick only; automatic picks are recomputed by getSelectedFrames and never stored
   selected?: boolean;
 }
 
@@ -13,6 +33,8 @@ export interface FrameData extends FrameMetadata {
   blob?: Blob;
   // Optional data buffer, only loaded when needed
   data?: Uint8Array;
+  // Keypoints for overlap estimation; kept in memory only, never written to IndexedDB
+  features?: FeatureSet;
 }
 
 // Complete frame data stored in IndexedDB
@@ -0,0 +1,187 @@
+import { describe, expect, it, vi } from 'vitest';
+import { computeQualityScores, getSelectedFrames } from '@/utils/frame-selection';
+import { defaultState, type ExtractPageState } from '@/types/frame-extraction';
+import { type FrameData } from '@/types/frame';
+import { type FeatureSet } from '@/lib/featureMatching';
+
+// Overlap falls by 10% per unit of camera position, which the fake feature sets carry in x[0]
+vi.mock('@/lib/featureMatching', () => ({
+  estimateOverlap: (a: FeatureSet, b: FeatureSet) => Math.max(0, 100 - 10 * Math.abs(a.x[0] - b.x[0])),
+}));
+
+function makeFeatures(position: number): FeatureSet {
+  return { count: 1, x: new Float32Array([position]), y: new Float32Array([0]), descriptors: new Uint32Array(8) };
+}
+
+function makeFrame(index: number, fields: Partial<FrameData> = {}): FrameData {
+  return {
+    id: `frame-${index.toString().padStart(5, '0')}`,
+    name: `frame_${index}.jpg`,
+    timestamp: index * 100,
+    format: 'jpeg',
+    sharpnessScore: 10,
+    ...fields,
+  };
+}
+
+function makeState(frames: FrameData[], settings: Partial<ExtractPageState>): ExtractPageState {
+  return { ...defaultState, frames, ...settings };
+}
+
+describe('computeQualityScores', () => {
+  const weights = defaultState.qualityWeights;
+
+  it('maps sharpness onto 0-100 with the default weights', () => {
+    const frames = [0, 50, 100].map((sharpnessScore, i) => makeFrame(i, { sharpnessScore }));
+    const scores = computeQualityScores(frames, weights);
+
+    expect(frames.map(frame => scores.get(frame.id))).toEqual([0, 50, 100]);
+  });
+
+  it('falls back to sharpness when every weight is zero', () => {
+    const frames = [makeFrame(0, { sharpnessScore: 1 }), makeFrame(1, { sharpnessScore: 3 })];
+    const scores = computeQualityScores(frames, { sharpness: 0, exposure: 0, noise: 0, motionBlur: 0 });
+
+    expect(scores.get(frames[0].id)).toBe(0);
+    expect(scores.get(frames[1].id)).toBe(100);
+  });
+
+  it('does not penalize frames without a noise measurement', () => {
+    const frames = [
+      makeFrame(0, { noiseLevel: 1 }),
+      makeFrame(1, { noiseLevel: 5 }),
+      makeFrame(2),
+    ];
+    const scores = computeQualityScores(frames, { sharpness: 0, exposure: 0, noise: 1, motionBlur: 0 });
+
+    expect(scores.get(frames[0].id)).toBe(100);
+    expect(scores.get(frames[1].id)).toBe(0);
+    expect(scores.get(frames[2].id)).toBe(100);
+  });
+
+  it('returns an empty map for no frames', () => {
+    expect(computeQualityScores([], weights).size).toBe(0);
+  });
+});
+
+describe('motion selection', () => {
+  // Motion accumulated from the frame after `from` up to and including `to`
+  function motionBetween(frames: FrameData[], from: FrameData, to: FrameData): number {
+    const start = frames.indexOf(from);
+    const end = frames.indexOf(to);
+    return frames.slice(start + 1, end + 1).reduce((sum, frame) => sum + (frame.motionMagnitude ?? 0), 0);
+  }
+
+  it('keeps consecutive picks at least the baseline apart', () => {
+    const sharpness = [5, 90, 80, 10, 95, 20, 70, 85, 15, 60, 99, 30, 40, 75, 50, 65, 35, 88, 45, 55];
+    const frames = sharpness.map((sharpnessScore, i) =>
+      makeFrame(i, { sharpnessScore, motionMagnitude: i === 0 ? 0 : 3 })
+    );
+
+    const selected = getSelectedFrames(makeState(frames, { selectionMode: 'motion', motionBaseline: 10 }));
+
+    expect(selected.length).toBeGreaterThan(1);
+    for (let i = 1; i < selected.length; i++) {
+      expect(motionBetween(frames, selected[i - 1], selected[i])).toBeGreaterThanOrEqual(10);
+    }
+  });
+
+  it('does not pick a sharp frame right after the previous pick', () => {
+    // Frame 4 is the first pick; frame 5 is the sharpest but only 2 past it
+    const sharpness = [1, 1, 1, 1, 50, 100, 1, 1, 1, 1, 1, 1];
+    const frames = sharpness.map((sharpnessScore, i) =>
+      makeFrame(i, { sharpnessScore, motionMagnitude: i === 0 ? 0 : 2 })
+    );
+
+    const selected = getSelectedFrames(makeState(frames, { selectionMode: 'motion', motionBaseline: 4 }));
+
+    expect(selected.map(frame => frame.name)).toContain('frame_4.jpg');
+    expect(selected.map(frame => frame.name)).not.toContain('frame_5.jpg');
+  });
+
+  it('keeps the best eligible frame of each stretch', () => {
+    const sharpness = [1, 1, 1, 3, 9, 2, 1];
+    const frames = sharpness.map((sharpnessScore, i) =>
+      makeFrame(i, { sharpnessScore, motionMagnitude: i === 0 ? 0 : 4 })
+    );
+
+    const selected = getSelectedFrames(makeState(frames, { selectionMode: 'motion', motionBaseline: 10 }));
+
+    expect(selected[0].name).toBe('frame_4.jpg');
+  });
+
+  it('yields the best frame of a clip that never moves far enough', () => {
+    const frames = [3, 7, 5].map((sharpnessScore, i) => makeFrame(i, { sharpnessScore, motionMagnitude: 0 }));
+
+    const selected = getSelectedFrames(makeState(frames, { selectionMode: 'motion', motionBaseline: 10 }));
+
+    expect(selected.map(frame => frame.name)).toEqual(['frame_1.jpg']);
+  });
+
+  it('counts the motion of excluded frames towards the baseline', () => {
+    // Frame 2 is a less sharp duplicate of frame 1, so it is not a candidate; frame 3 only
+    // reaches the baseline with its motion included
+    const frames = [
+      makeFrame(0, { motionMagnitude: 0 }),
+      makeFrame(1, { sharpnessScore: 20, motionMagnitude: 6, duplicateGroup: 0 }),
+      makeFrame(2, { sharpnessScore: 10, motionMagnitude: 6, duplicateGroup: 0 }),
+      makeFrame(3, { sharpnessScore: 10, motionMagnitude: 2 }),
+    ];
+
+    const selected = getSelectedFrames(makeState(frames, {
+      selectionMode: 'motion',
+      motionBaseline: 10,
+      suppressDuplicates: true,
+    }));
+
+    expect(selected.map(frame => frame.name)).toEqual(['frame_3.jpg']);
+  });
+});
+
+describe('overlap selection', () => {
+  function selectAt(positions: number[], sharpness: number[] = positions.map(() => 10)): string[] {
+    const frames = positions.map((position, i) =>
+      makeFrame(i, { sharpnessScore: sharpness[i], features: makeFeatures(position) })
+    );
+    return getSelectedFrames(makeState(frames, { selectionMode: 'overlap', overlapRange: [60, 80] }))
+      .map(frame => frame.name);
+  }
+
+  it('chains frames whose overlap with the previous pick is inside the band', () => {
+    // Positions 0-8: overlap 80 at two steps apart, 60 at four
+    const selected = selectAt([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+
+    expect(selected).toEqual(['frame_0.jpg', 'frame_2.jpg', 'frame_4.jpg', 'frame_6.jpg', 'frame_8.jpg']);
+  });
+
+  it('keeps the best-scoring frame inside the band', () => {
+    const selected = selectAt([0, 1, 2, 3, 4, 5], [10, 10, 10, 10, 50, 10]);
+
+    expect(selected.slice(0, 2)).toEqual(['frame_0.jpg', 'frame_4.jpg']);
+  });
+
+  it('stays connected when the view changes too fast for the band', () => {
+    // From 1 to 10 the overlap drops straight from 90 to 10
+    const selected = selectAt([0, 1, 10]);
+
+    expect(selected).toEqual(['frame_0.jpg', 'frame_1.jpg', 'frame_2.jpg']);
+  });
+
+  it('stops once the rest of the clip is redundant with the last pick', () => {
+    const selected = selectAt([0, 0.5, 1, 1.5]);
+
+    expect(selected).toEqual(['frame_0.jpg']);
+  });
+
+  it('skips frames without features', () => {
+    const frames = [
+      makeFrame(0),
+      makeFrame(1, { features: makeFeatures(0) }),
+      makeFrame(2, { features: makeFeatures(3) }),
+    ];
+
+    const selected = getSelectedFrames(makeState(frames, { selectionMode: 'overlap', overlapRange: [60, 80] }));
+
+    expect(selected.map(frame => frame.name)).toEqual(['frame_1.jpg', 'frame_2.jpg']);
+  });
+});
@@ -1,10 +1,107 @@
-import { type ExtractPageState, type ChartData } from '@/types/frame-extraction';
+import { type ExtractPageState, type ChartData, type QualityWeights } from '@/types/frame-extraction';
 import { type FrameData } from '@/types/frame';
+import { estimateOverlap, type FeatureSet } from '@/lib/featureMatching';
 
 export function getSelectedFramesCount(state: ExtractPageState): number {
   return getSelectedFrames(state).length;
 }
 
+// Normalizes values to 0-1 across the frame set; a flat set maps to 1
+function normalizeRange(values: number[]): (value: number) => number {
+  // A loop rather than Math.min(...values), which overflows the stack on very long videos
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  const range = max - min;
+  return (value) => range > 0 ? (value - min) / range : 1;
+}
+
+/**
+ * Motion-blur magnitude (0-1) per frame: how much sharpness the frame has lost against the
+ * clip's median, weighted towards directional smear. Anisotropy alone ignores scale, so a
+ * crisp shot of railings would read as blurred; scaling it by the sharpness deficit keeps
+ * sharp frames at 0 whatever their structure. Frames without an estimate get undefined.
+ */
+export function createMotionBlurSeverity(frames: FrameData[]): (frame: FrameData) => number | undefined {
+  const sharpness = frames
+    .map(frame => frame.sharpnessScore)
+    .filter((score): score is number => typeof score === 'number')
+    .sort((a, b) => a - b);
+  const median = sharpness.length > 0 ? sharpness[Math.floor(sharpness.length / 2)] : 0;
+
+  return (frame) => {
+    if (frame.blurAnisotropy === undefined || frame.sharpnessScore === undefined || median <= 0) {
+      return undefined;
+    }
+    const deficit = Math.min(1, Math.max(0, 1 - frame.sharpnessScore / median));
+    // Isotropic softness (defocus, low light) still counts, at half weight
+    return deficit * (0.5 + 0.5 * frame.blurAnisotropy);
+  };
+}
+
+// Maps a 0-100 composite score back onto the raw sharpness range the scores were normalized
+// over. With the default sharpness-only weights this gives back each frame's raw score.
+function createSharpnessScale(frames: FrameData[]): (score: number) => number {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const frame of frames) {
+    const value = frame.sharpnessScore ?? 0;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (min === Infinity) return () => 0;
+  return (score) => min + (score / 100) * (max - min);
+}
+
+// 1 for a well-exposed frame, falling with clipped pixels and distance from mid-grey
+function exposureQuality(frame: FrameData): number {
+  if (frame.meanLuminance === undefined) return 1;
+  const clipped = ((frame.highlightClipping ?? 0) + (frame.shadowClipping ?? 0)) / 100;
+  const offCenter = Math.abs(frame.meanLuminance - 128) / 256;
+  return Math.max(0, 1 - clipped - offCenter);
+}
+
+/**
+ * Composite quality score (0-100) per frame id: the weighted mean of normalized sharpness,
+ * exposure, low noise and absence of motion blur. Terms a frame has no measurement for count
+ * as perfect, so frames analyzed without a given metric are never penalized for it.
+ */
+export function computeQualityScores(frames: FrameData[], weights: QualityWeights): Map<string, number> {
+  const scores = new Map<string, number>();
+  if (frames.length === 0) return scores;
+
+  const totalWeight = weights.sharpness + weights.exposure + weights.noise + weights.motionBlur;
+  const normalizeSharpness = normalizeRange(frames.map(f => f.sharpnessScore ?? 0));
+  const noiseValues = frames.map(f => f.noiseLevel).filter((n): n is number => n !== undefined);
+  const normalizeNoise = noiseValues.length > 0 ? normalizeRange(noiseValues) : () => 0;
+  const motionBlurSeverity = createMotionBlurSeverity(frames);
+
+  for (const frame of frames) {
+    const sharpness = normalizeSharpness(frame.sharpnessScore ?? 0);
+
+    // Fall back to sharpness alone when every weight is zero
+    if (totalWeight <= 0) {
+      scores.set(frame.id, sharpness * 100);
+      continue;
+    }
+
+    const noise = frame.noiseLevel === undefined ? 1 : 1 - normalizeNoise(frame.noiseLevel);
+    const motionBlur = 1 - (motionBlurSeverity(frame) ?? 0);
+    const weighted =
+      weights.sharpness * sharpness +
+      weights.exposure * exposureQuality(frame) +
+      weights.noise * noise +
+      weights.motionBlur * motionBlur;
+
+    scores.set(frame.id, (weighted / totalWeight) * 100);
+  }
+
+  return scores;
+}
+
 interface ScoredFrame extends FrameData {
   compositeScore: number;
   segmentIndex: number;
@@ -32,7 +129,13 @@ function calculateDistributionScore(frameIndex: number, totalFrames: number, sel
   return (distanceScore * 0.7) + (positionScore * 0.3);
 }
 
-function selectBestNFrames(frames: FrameData[], n: number, minGap: number): FrameData[] {
+function selectBestNFrames(
+  frames: FrameData[],
+  n: number,
+  minGap: number,
+  scores: Map<string, number>,
+  toSharpnessScale: (score: number) => number
+): FrameData[] {
   if (frames.length === 0) return [];
   
   const selectedIndices = new Set<number>();
@@ -43,7 +146,7 @@ function selectBestNFrames(frames: FrameData[], n: number, minGap: number): Fram
   for (let i = 0; i < frames.length; i += segmentSize) {
     const segment = frames.slice(i, i + segmentSize).map(frame => ({
       ...frame,
-      compositeScore: frame.sharpnessScore || 0,
+      compositeScore: scores.get(frame.id) ?? 0,
       segmentIndex: Math.floor(i / segmentSize)
     }));
     segments.push(segment);
@@ -62,9 +165,9 @@ function selectBestNFrames(frames: FrameData[], n: number, minGap: number): Fram
     });
 
     if (validFrames.length > 0) {
-      // Sort by sharpness score and select the best one
+      // Select the best-scoring one
       const bestFrame = validFrames.reduce((best, current) => 
-        (current.sharpnessScore || 0) > (best.sharpnessScore || 0) ? current : best
+        current.compositeScore > best.compositeScore ? current : best
       );
       
       selectedFrames.push(bestFrame);
@@ -82,8 +185,10 @@ function selectBestNFrames(frames: FrameData[], n: number, minGap: number): Fram
 
       const frame = frames[i];
       const distributionScore = calculateDistributionScore(i, frames.length, selectedIndices, minGap);
-      const sharpnessScore = frame.sharpnessScore || 0;
-      const compositeScore = (sharpnessScore * 0.7) + (distributionScore * 0.3);
+      // On the raw sharpness scale, as before composite scores, so the distribution term
+      // keeps the same (small) influence
+      const qualityScore = toSharpnessScale(scores.get(frame.id) ?? 0);
+      const compositeScore = (qualityScore * 0.7) + (distributionScore * 0.3);
 
       if (compositeScore > bestScore && 
           Array.from(selectedIndices).every(selectedIndex => Math.abs(i - selectedIndex) >= minGap)) {
@@ -103,12 +208,12 @@ function selectBestNFrames(frames: FrameData[], n: number, minGap: number): Fram
   return selectedFrames;
 }
 
-function selectTopPercentFrames(frames: FrameData[], percentageThreshold: number): FrameData[] {
+function selectTopPercentFrames(frames: FrameData[], percentageThreshold: number, scores: Map<string, number>): FrameData[] {
   if (frames.length === 0) return [];
 
-  // Sort frames by sharpness score in descending order
+  // Sort frames by quality score in descending order
   const sortedFrames = [...frames].sort((a, b) => 
-    (b.sharpnessScore ?? 0) - (a.sharpnessScore ?? 0)
+    (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0)
   );
 
   // Calculate how many frames to select based on the percentage
@@ -118,6 +223,167 @@ function selectTopPercentFrames(frames: FrameData[], percentageThreshold: number
   return sortedFrames.slice(0, numFramesToSelect);
 }
 
+/**
+ * Walks the frames in order, accumulating inter-frame motion since the last pick. Candidates that
+ * are at least `baseline` of motion past it are eligible; once the total reaches twice the baseline
+ * the best-scoring eligible frame is kept and counting restarts from it. Motion of non-candidate
+ * frames still counts towards the baseline.
+ */
+function selectByMotion(
+  frames: FrameData[],
+  candidates: FrameData[],
+  baseline: number,
+  scores: Map<string, number>
+): FrameData[] {
+  const candidateIds = new Set(candidates.map(frame => frame.id));
+  const selected: FrameData[] = [];
+  // Frames since the last pick, with the motion accumulated from it up to each frame
+  let pending: { frame: FrameData; offset: number }[] = [];
+  let accumulated = 0;
+
+  const keepBest = (): boolean => {
+    let bestIndex = -1;
+    for (let i = 0; i < pending.length; i++) {
+      if (pending[i].offset < baseline || !candidateIds.has(pending[i].frame.id)) continue;
+      if (bestIndex === -1 || (scores.get(pending[i].frame.id) ?? 0) > (scores.get(pending[bestIndex].frame.id) ?? 0)) {
+        bestIndex = i;
+      }
+    }
+    if (bestIndex === -1) return false;
+
+    const picked = pending[bestIndex];
+    selected.push(picked.frame);
+    pending = pending.slice(bestIndex + 1).map(entry => ({ frame: entry.frame, offset: entry.offset - picked.offset }));
+    accumulated -= picked.offset;
+    return true;
+  };
+
+  for (const frame of frames) {
+    accumulated += frame.motionMagnitude ?? 0;
+    pending.push({ frame, offset: accumulated });
+
+    // With no eligible frame yet, keep accumulating until one turns up
+    while (accumulated >= baseline * 2) {
+      if (!keepBest()) break;
+    }
+  }
+
+  // The tail never reached twice the baseline; its eligible frames still count
+  while (pending.length > 0) {
+    if (!keepBest()) break;
+  }
+
+  // A clip that never moves far enough still yields its best frame
+  if (selected.length === 0 && candidates.length > 0) {
+    selected.push(candidates.reduce((best, current) =>
+      (scores.get(current.id) ?? 0) > (scores.get(best.id) ?? 0) ? current : best
+    ));
+  }
+
+  return selected;
+}
+
+// getSelectedFrames runs on every render; pairwise overlaps are cached per feature set
+const overlapCache = new WeakMap<FeatureSet, Map<FeatureSet, number>>();
+
+function getOverlap(a: FeatureSet, b: FeatureSet): number {
+  let cached = overlapCache.get(a);
+  if (!cached) {
+    cached = new Map();
+    overlapCache.set(a, cached);
+  }
+
+  let overlap = cached.get(b);
+  if (overlap === undefined) {
+    overlap = estimateOverlap(a, b);
+    cached.set(b, overlap);
+  }
+  return overlap;
+}
+
+/**
+ * Chains frames so each kept frame overlaps the previous kept frame within [minOverlap, maxOverlap].
+ * From the last kept frame, later candidates are scanned until overlap drops below the band; the
+ * best-scoring frame inside the band is kept next. If the view changes too fast for any frame to
+ * land in the band, the last frame that still overlaps enough is kept so the chain stays connected.
+ */
+function selectByOverlap(
+  candidates: FrameData[],
+  [minOverlap, maxOverlap]: [number, number],
+  scores: Map<string, number>
+): FrameData[] {
+  const withFeatures = candidates.filter(
+    (frame): frame is FrameData & { features: FeatureSet } => frame.features !== undefined
+  );
+  if (withFeatures.length === 0) return [];
+
+  const selected: FrameData[] = [withFeatures[0]];
+  let keptIndex = 0;
+
+  while (keptIndex < withFeatures.length - 1) {
+    const kept = withFeatures[keptIndex];
+    let bestInBand = -1;
+    let lastAboveBand = -1;
+    let firstBelowBand = -1;
+
+    for (let j = keptIndex + 1; j < withFeatures.length; j++) {
+      const overlap = getOverlap(kept.features, withFeatures[j].features);
+
+      if (overlap > maxOverlap) {
+        lastAboveBand = j;
+      } else if (overlap >= minOverlap) {
+        if (bestInBand === -1 || (scores.get(withFeatures[j].id) ?? 0) > (scores.get(withFeatures[bestInBand].id) ?? 0)) {
+          bestInBand = j;
+        }
+      } else {
+        firstBelowBand = j;
+        break;
+      }
+    }
+
+    let nextIndex: number;
+    if (bestInBand !== -1) {
+      nextIndex = bestInBand;
+    } else if (firstBelowBand === -1) {
+      // The rest of the clip is all redundant with the kept frame
+      break;
+    } else {
+      nextIndex = lastAboveBand !== -1 ? lastAboveBand : firstBelowBand;
+    }
+
+    selected.push(withFeatures[nextIndex]);
+    keptIndex = nextIndex;
+  }
+
+  return selected;
+}
+
+// maxMotionBlur is a percentage of the 0-1 blur severity; frames without an estimate pass
+function isMotionBlurred(
+  frame: FrameData,
+  maxMotionBlur: number,
+  motionBlurSeverity: (frame: FrameData) => number | undefined
+): boolean {
+  const severity = motionBlurSeverity(frame);
+  return severity !== undefined && severity * 100 > maxMotionBlur;
+}
+
+// Drops every near-duplicate except the sharpest frame of its group
+function keepSharpestPerDuplicateGroup<T extends FrameData & { sharpnessScore: number }>(frames: T[]): T[] {
+  const sharpestByGroup = new Map<number, T>();
+  for (const frame of frames) {
+    if (frame.duplicateGroup === undefined) continue;
+    const best = sharpestByGroup.get(frame.duplicateGroup);
+    if (!best || frame.sharpnessScore > best.sharpnessScore) {
+      sharpestByGroup.set(frame.duplicateGroup, frame);
+    }
+  }
+
+  return frames.filter(frame =>
+    frame.duplicateGroup === undefined || sharpestByGroup.get(frame.duplicateGroup) === frame
+  );
+}
+
 export function getSelectedFrames(state: ExtractPageState): FrameData[] {
   if (state.frames.length === 0) return [];
 
@@ -134,27 +400,45 @@ export function getSelectedFrames(state: ExtractPageState): FrameData[] {
     return state.frames.filter(frame => frame.selected);
   }
 
+  // Motion-blurred frames never get auto-selected, but can still be picked manually
+  const motionBlurSeverity = createMotionBlurSeverity(framesWithScores);
+  let candidateFrames = state.excludeMotionBlur
+    ? framesWithScores.filter(frame => !isMotionBlurred(frame, state.maxMotionBlur, motionBlurSeverity))
+    : framesWithScores;
+
+  if (state.suppressDuplicates) {
+    candidateFrames = keepSharpestPerDuplicateGroup(candidateFrames);
+  }
+
+  const scores = computeQualityScores(framesWithScores, state.qualityWeights);
+
   // Get automatically selected frames based on mode
   let autoSelectedFrames: FrameData[] = [];
   
   if (state.selectionMode === 'batched') {
-    // Process frames in batches, selecting the best frame from each batch
+    // Batches follow the timeline over all frames so buffer gaps stay put; excluded frames
+    // only drop out of the choice within their batch
+    const candidateIds = new Set(candidateFrames.map(frame => frame.id));
     for (let i = 0; i < framesWithScores.length; i += state.batchSize + state.batchBuffer) {
       // Get current batch
-      const batch = framesWithScores.slice(i, i + state.batchSize);
-      if (batch.length === 0) break;
+      const batch = framesWithScores.slice(i, i + state.batchSize).filter(frame => candidateIds.has(frame.id));
+      if (batch.length === 0) continue;
 
-      // Find the sharpest frame in the batch
+      // Find the best-scoring frame in the batch
       const selectedFrame = batch.reduce((best, current) => 
-        current.sharpnessScore > best.sharpnessScore ? current : best
+        (scores.get(current.id) ?? 0) > (scores.get(best.id) ?? 0) ? current : best
       , batch[0]);
 
       autoSelectedFrames.push(selectedFrame);
     }
   } else if (state.selectionMode === 'best-n') {
-    autoSelectedFrames = selectBestNFrames(framesWithScores, state.bestNCount, state.bestNMinGap);
+    autoSelectedFrames = selectBestNFrames(candidateFrames, state.bestNCount, state.bestNMinGap, scores, createSharpnessScale(framesWithScores));
   } else if (state.selectionMode === 'top-percent') {
-    autoSelectedFrames = selectTopPercentFrames(framesWithScores, state.percentageThreshold);
+    autoSelectedFrames = selectTopPercentFrames(candidateFrames, state.percentageThreshold, scores);
+  } else if (state.selectionMode === 'motion') {
+    autoSelectedFrames = selectByMotion(framesWithScores, candidateFrames, state.motionBaseline, scores);
+  } else if (state.selectionMode === 'overlap') {
+    autoSelectedFrames = selectByOverlap(candidateFrames, state.overlapRange, scores);
   }
 
   // Get manually selected frames
@@ -171,9 +455,11 @@ export function getSelectedFrames(state: ExtractPageState): FrameData[] {
 
 export function getChartData(state: ExtractPageState): ChartData[] {
   const selectedFrames = new Set(getSelectedFrames(state));
+  const scores = computeQualityScores(state.frames, state.qualityWeights);
   return state.frames.map((frame) => ({
     name: frame.name,
     sharpnessScore: frame.sharpnessScore ?? 0,
+    qualityScore: scores.get(frame.id) ?? 0,
     selected: selectedFrames.has(frame),
   }));
 }
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildExportManifest,
+  canRestoreAnalysis,
+  createManifestLookup,
+  getManifestAnalysis,
+  getManifestSettings
+} from '@/utils/manifest-selection';
+import { parseExportManifest, type ExportManifest, type ManifestFrame } from '@/lib/exportManifest';
+import { defaultState, type ExtractPageState } from '@/types/frame-extraction';
+import { type FrameData } from '@/types/frame';
+
+function makeFrame(index: number, fields: Partial<FrameData> = {}): FrameData {
+  return {
+    id: `frame-${index.toString().padStart(5, '0')}`,
+    name: `frame_${index.toString().padStart(5, '0')}.jpg`,
+    timestamp: index * 100,
+    format: 'jpeg',
+    sharpnessScore: 10 + index,
+    sharpnessMetric: 'tenengrad',
+    ...fields,
+  };
+}
+
+function makeState(settings: Partial<ExtractPageState> = {}): ExtractPageState {
+  return {
+    ...defaultState,
+    videoFile: new File([], 'clip.mp4'),
+    timeRanges: [{ start: 0, end: 30, label: 'Range 1' }],
+    frames: [makeFrame(0), makeFrame(1, { selected: true }), makeFrame(2)],
+    ...settings,
+  };
+}
+
+function makeManifest(fields: Partial<ExportManifest> = {}): ExportManifest {
+  return {
+    ...buildExportManifest(makeState(), []),
+    ...fields,
+  };
+}
+
+describe('buildExportManifest', () => {
+  it('marks each frame as a manual, automatic or missing pick', () => {
+    const state = makeState();
+    const manifest = buildExportManifest(state, [state.frames[0], state.frames[1]]);
+
+    expect(manifest.frames.map(frame => frame.selection)).toEqual(['auto', 'manual', 'none']);
+  });
+
+  it('only records the parameters of the current selection mode', () => {
+    const manifest = buildExportManifest(makeState({ selectionMode: 'motion', motionBaseline: 12 }), []);
+
+    expect(manifest.selection.parameters.motionBaseline).toBe(12);
+    expect(manifest.selection.parameters).not.toHaveProperty('batchSize');
+  });
+
+  it('leaves extraction settings out for image folders', () => {
+    const manifest = buildExportManifest(makeState({ isImageMode: true }), []);
+
+    expect(manifest.source).toEqual({ type: 'images', fileName: null });
+    expect(manifest.extraction).toBeNull();
+  });
+});
+
+describe('getManifestSettings', () => {
+  it('restores the settings a manifest was exported with', () => {
+    const state = makeState({
+      selectionMode: 'best-n',
+      bestNCount: 42,
+      extractionMode: 'scene-change',
+      sceneThreshold: 25,
+      fps: 5,
+      format: 'webp',
+    });
+    const manifest = parseExportManifest(JSON.stringify(buildExportManifest(state, [])));
+
+    expect(getManifestSettings(manifest, defaultState.formatQuality)).toMatchObject({
+      selectionMode: 'best-n',
+      bestNCount: 42,
+      extractionMode: 'scene-change',
+      sceneThreshold: 25,
+      fps: 5,
+      format: 'webp',
+      timeRanges: state.timeRanges,
+    });
+  });
+
+  it('skips settings with the wrong type', () => {
+    const manifest = makeManifest({
+      selection: { mode: 'motion', parameters: { motionBaseline: '12', sharpnessMetric: 'sobel', suppressDuplicates: true } },
+      extraction: { mode: 'shots', fps: null, format: 'bmp' },
+    });
+
+    const settings = getManifestSettings(manifest, defaultState.formatQuality);
+
+    expect(settings).toEqual({ selectionMode: 'motion', suppressDuplicates: true });
+  });
+
+  it('clamps time ranges to the video duration', () => {
+    const manifest = makeManifest();
+
+    expect(getManifestSettings(manifest, defaultState.formatQuality, 12).timeRanges)
+      .toEqual([{ start: 0, end: 12, label: 'Range 1' }]);
+  });
+
+  it('reads the single time range of older manifests', () => {
+    const manifest = makeManifest({ extraction: { mode: 'interval', timeRange: [2, 8] } });
+
+    expect(getManifestSettings(manifest, defaultState.formatQuality).timeRanges)
+      .toEqual([{ start: 2, end: 8, label: 'Range 1' }]);
+  });
+
+  it('ignores extraction settings of image folder manifests', () => {
+    const manifest = makeManifest({ source: { type: 'images', fileName: null } });
+
+    expect(getManifestSettings(manifest, defaultState.formatQuality)).not.toHaveProperty('extractionMode');
+  });
+});
+
+describe('createManifestLookup', () => {
+  it('matches extracted frames by index when the timestamps agree', () => {
+    const findManifestFrame = createManifestLookup(makeManifest());
+
+    expect(findManifestFrame({ name: 'other.jpg', timestamp: 100 }, 1)?.id).toBe('frame-00001');
+    expect(findManifestFrame({ name: 'frame_00001.jpg', timestamp: 150 }, 1)).toBeUndefined();
+  });
+
+  it('matches images by file name', () => {
+    const manifest = buildExportManifest(makeState({ isImageMode: true }), []);
+    const findManifestFrame = createManifestLookup(manifest);
+
+    expect(findManifestFrame({ name: 'frame_00002.jpg', timestamp: 0 }, 0)?.id).toBe('frame-00002');
+  });
+});
+
+describe('canRestoreAnalysis', () => {
+  it('needs fresh analysis for overlap selection only', () => {
+    expect(canRestoreAnalysis(makeManifest())).toBe(true);
+    expect(canRestoreAnalysis(makeManifest({ selection: { mode: 'overlap', parameters: {} } }))).toBe(false);
+  });
+});
+
+describe('getManifestAnalysis', () => {
+  const entry: ManifestFrame = {
+    id: 'frame-00000',
+    fileName: 'frame_00000.jpg',
+    sourceFile: 'clip.mp4',
+    frameIndex: 0,
+    timestamp: 0,
+    selection: 'auto',
+    sharpnessScore: 12.5,
+    sharpnessMetric: 'tenengrad',
+    noiseLevel: 3,
+    perceptualHash: '00ff00ff00ff00ff',
+    duplicateGroup: 4,
+  };
+
+  it('restores the stored metrics without the duplicate group', () => {
+    expect(getManifestAnalysis(entry)).toEqual({
+      sharpnessScore: 12.5,
+      sharpnessMetric: 'tenengrad',
+      noiseLevel: 3,
+      perceptualHash: '00ff00ff00ff00ff',
+    });
+  });
+
+  it('gives up on frames without a sharpness score', () => {
+    expect(getManifestAnalysis({ ...entry, sharpnessScore: undefined })).toBeNull();
+  });
+
+  it('gives up on malformed metrics', () => {
+    const malformed = (fields: Record<string, unknown>) => ({ ...entry, ...fields }) as ManifestFrame;
+
+    expect(getManifestAnalysis(malformed({ noiseLevel: '3' }))).toBeNull();
+    expect(getManifestAnalysis(malformed({ meanLuminance: null }))).toBeNull();
+    expect(getManifestAnalysis(malformed({ sharpnessMetric: 'sobel' }))).toBeNull();
+    expect(getManifestAnalysis(malformed({ perceptualHash: 255 }))).toBeNull();
+  });
+});
@@ -0,0 +1,288 @@
+import { type ExtractPageState, type ExtractionMode, type QualityWeights, type TimeRange } from '@/types/frame-extraction';
+import { type FrameData, type FrameMetadata } from '@/types/frame';
+import { MANIFEST_VERSION, isKeyOf, isRecord, type ExportManifest, type ManifestFrame } from '@/lib/exportManifest';
+import { sanitizeFilename } from '@/lib/zipUtils';
+import { IMAGE_FORMATS } from '@/lib/imageUtils';
+import { SHARPNESS_METRICS, type SharpnessMetricId } from '@/lib/sharpnessMetrics';
+import { type TimestampUnit } from '@/lib/timestampList';
+import { isIdentityTransform, type OutputTransform } from '@/lib/outputTransform';
+import { computeQualityScores } from '@/utils/frame-selection';
+
+// Only the parameters the current mode actually reads, plus the filters and weights all modes share
+function getSelectionParameters(state: ExtractPageState): Record<string, unknown> {
+  const modeParameters: Record<string, unknown> = (() => {
+    switch (state.selectionMode) {
+      case 'batched':
+        return { batchSize: state.batchSize, batchBuffer: state.batchBuffer };
+      case 'best-n':
+        return { bestNCount: state.bestNCount, bestNMinGap: state.bestNMinGap };
+      case 'top-percent':
+        return { percentageThreshold: state.percentageThreshold };
+      case 'motion':
+        return { motionBaseline: state.motionBaseline };
+      case 'overlap':
+        return { overlapRange: state.overlapRange };
+      case 'manual':
+        return {};
+    }
+  })();
+
+  if (state.selectionMode === 'manual') return modeParameters;
+
+  return {
+    ...modeParameters,
+    sharpnessMetric: state.sharpnessMetric,
+    qualityWeights: state.qualityWeights,
+    excludeMotionBlur: state.excludeMotionBlur,
+    ...(state.excludeMotionBlur && { maxMotionBlur: state.maxMotionBlur }),
+    suppressDuplicates: state.suppressDuplicates,
+  };
+}
+
+/**
+ * Describes every analyzed frame and how the selection was made, for manifest.json/manifest.csv
+ * in the exported archives.
+ */
+export function buildExportManifest(state: ExtractPageState, selectedFrames: FrameData[]): ExportManifest {
+  const scores = computeQualityScores(state.frames, state.qualityWeights);
+  const selectedIds = new Set(selectedFrames.map(frame => frame.id));
+  const videoName = state.isImageMode ? null : state.videoFile?.name ?? null;
+
+  return {
+    version: MANIFEST_VERSION,
+    createdAt: new Date().toISOString(),
+    source: {
+      type: state.isImageMode ? 'images' : 'video',
+      fileName: videoName,
+    },
+    extraction: state.isImageMode ? null : {
+      mode: state.extractionMode,
+      fps: state.fps,
+      useOriginalFrameRate: state.useOriginalFrameRate,
+      timeRanges: state.timeRanges,
+      ...(state.extractionMode === 'scene-change' && { sceneThreshold: state.sceneThreshold }),
+      ...(state.extractionMode === 'every-frame' && { frameStep: state.frameStep }),
+      ...(state.extractionMode === 'timestamps' && {
+        timestampList: state.timestampList,
+        timestampUnit: state.timestampUnit,
+      }),
+      format: state.format,
+      ...(IMAGE_FORMATS[state.format].lossy && { quality: state.formatQuality[state.format] }),
+      ...(!isIdentityTransform(state.outputTransform) && { transform: state.outputTransform }),
+    },
+    selection: {
+      mode: state.selectionMode,
+      parameters: getSelectionParameters(state),
+    },
+    frames: state.frames.map((frame, frameIndex) => ({
+      id: frame.id,
+      fileName: sanitizeFilename(frame.name),
+      sourceFile: videoName ?? frame.name,
+      frameIndex,
+      timestamp: frame.timestamp,
+      rangeLabel: frame.rangeLabel,
+      sharpnessScore: frame.sharpnessScore,
+      sharpnessMetric: frame.sharpnessMetric,
+      qualityScore: scores.get(frame.id),
+      blurAnisotropy: frame.blurAnisotropy,
+      blurDirection: frame.blurDirection,
+      highlightClipping: frame.highlightClipping,
+      shadowClipping: frame.shadowClipping,
+      meanLuminance: frame.meanLuminance,
+      noiseLevel: frame.noiseLevel,
+      perceptualHash: frame.perceptualHash,
+      duplicateGroup: frame.duplicateGroup,
+      motionMagnitude: frame.motionMagnitude,
+      selection: !selectedIds.has(frame.id) ? 'none' : frame.selected ? 'manual' : 'auto',
+    })),
+  };
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+function isSharpnessMetric(value: unknown): value is SharpnessMetricId {
+  return isKeyOf(SHARPNESS_METRICS, value);
+}
+
+function isQualityWeights(value: unknown): value is QualityWeights {
+  return isRecord(value) &&
+    isNumber(value.sharpness) && isNumber(value.exposure) && isNumber(value.noise) && isNumber(value.motionBlur);
+}
+
+function isTimeRange(value: unknown): value is TimeRange {
+  return isRecord(value) && isNumber(value.start) && isNumber(value.end) && typeof value.label === 'string' &&
+    (value.fps === undefined || isNumber(value.fps));
+}
+
+function isOutputTransform(value: unknown): value is OutputTransform {
+  const crop = isRecord(value) ? value.crop : undefined;
+  return isRecord(value) &&
+    (value.sizeMode === 'original' || value.sizeMode === 'long-edge' || value.sizeMode === 'scale') &&
+    isNumber(value.longEdge) &&
+    isNumber(value.scale) &&
+    (crop === null || (isRecord(crop) && isNumber(crop.x) && isNumber(crop.y) && isNumber(crop.width) && isNumber(crop.height))) &&
+    (value.rotation === 0 || value.rotation === 90 || value.rotation === 180 || value.rotation === 270) &&
+    isBoolean(value.flipHorizontal) &&
+    isBoolean(value.flipVertical);
+}
+
+const EXTRACTION_MODES: Record<ExtractionMode, true> = {
+  'interval': true,
+  'scene-change': true,
+  'keyframes': true,
+  'every-frame': true,
+  'timestamps': true,
+};
+
+const TIMESTAMP_UNITS: Record<TimestampUnit, true> = { seconds: true, frames: true };
+
+// Manifests are user files, so each restored setting is type-checked before it reaches page state
+const SELECTION_SETTING_CHECKS: {
+  [K in keyof ExtractPageState]?: (value: unknown) => value is ExtractPageState[K];
+} = {
+  batchSize: isNumber,
+  batchBuffer: isNumber,
+  bestNCount: isNumber,
+  bestNMinGap: isNumber,
+  percentageThreshold: isNumber,
+  motionBaseline: isNumber,
+  overlapRange: (value): value is [number, number] => Array.isArray(value) && value.length === 2 && value.every(isNumber),
+  sharpnessMetric: isSharpnessMetric,
+  qualityWeights: isQualityWeights,
+  excludeMotionBlur: isBoolean,
+  maxMotionBlur: isNumber,
+  suppressDuplicates: isBoolean,
+};
+
+/**
+ * Page settings recorded in a manifest: the selection mode and its parameters, and for videos
+ * the extraction settings, so re-extracting produces the same frames the manifest describes.
+ * Settings with the wrong type are skipped and keep their current value.
+ */
+export function getManifestSettings(
+  manifest: ExportManifest,
+  formatQuality: ExtractPageState['formatQuality'],
+  videoDuration?: number
+): Partial<ExtractPageState> {
+  const settings: Partial<ExtractPageState> = { selectionMode: manifest.selection.mode };
+  const parameters = manifest.selection.parameters;
+
+  for (const [key, isValid] of Object.entries(SELECTION_SETTING_CHECKS)) {
+    if (isValid(parameters[key])) {
+      Object.assign(settings, { [key]: parameters[key] });
+    }
+  }
+
+  const extraction = manifest.extraction;
+
+  if (manifest.source.type === 'video' && extraction) {
+    if (isKeyOf(EXTRACTION_MODES, extraction.mode)) settings.extractionMode = extraction.mode;
+    if (isBoolean(extraction.useOriginalFrameRate)) settings.useOriginalFrameRate = extraction.useOriginalFrameRate;
+    if (isNumber(extraction.fps)) settings.fps = extraction.fps;
+    if (isNumber(extraction.sceneThreshold)) settings.sceneThreshold = extraction.sceneThreshold;
+    if (isNumber(extraction.frameStep)) settings.frameStep = extraction.frameStep;
+    if (typeof extraction.timestampList === 'string') settings.timestampList = extraction.timestampList;
+    if (isKeyOf(TIMESTAMP_UNITS, extraction.timestampUnit)) settings.timestampUnit = extraction.timestampUnit;
+    if (isOutputTransform(extraction.transform)) settings.outputTransform = extraction.transform;
+    if (isKeyOf(IMAGE_FORMATS, extraction.format)) {
+      settings.format = extraction.format;
+      if (isNumber(extraction.quality)) {
+        settings.formatQuality = { ...formatQuality, [extraction.format]: extraction.quality };
+      }
+    }
+    // Manifests written before multiple ranges were supported have a single timeRange pair
+    const legacyRange = extraction.timeRange;
+    const timeRanges = Array.isArray(extraction.timeRanges) && extraction.timeRanges.every(isTimeRange)
+      ? extraction.timeRanges
+      : Array.isArray(legacyRange) && legacyRange.length === 2 && legacyRange.every(isNumber)
+        ? [{ start: legacyRange[0], end: legacyRange[1], label: 'Range 1' }]
+        : null;
+    if (timeRanges) {
+      settings.timeRanges = videoDuration === undefined
+        ? timeRanges
+        : timeRanges.map(range => ({
+            ...range,
+            start: Math.min(range.start, videoDuration),
+            end: Math.min(range.end, videoDuration),
+          }));
+    }
+  }
+
+  return settings;
+}
+
+// Extracted frames are matched by index with their timestamp as a check; images by file name
+const TIMESTAMP_TOLERANCE_MS = 1;
+
+export function createManifestLookup(
+  manifest: ExportManifest
+): (frame: Pick<FrameMetadata, 'name' | 'timestamp'>, index: number) => ManifestFrame | undefined {
+  if (manifest.source.type === 'images') {
+    const byName = new Map(manifest.frames.map(entry => [entry.sourceFile, entry]));
+    return (frame) => byName.get(frame.name);
+  }
+
+  const byIndex = new Map(manifest.frames.map(entry => [entry.frameIndex, entry]));
+  return (frame, index) => {
+    const entry = byIndex.get(index);
+    return entry && Math.abs(entry.timestamp - frame.timestamp) <= TIMESTAMP_TOLERANCE_MS ? entry : undefined;
+  };
+}
+
+// Keypoints aren't exported, so overlap selection still needs frames analyzed from scratch
+export function canRestoreAnalysis(manifest: ExportManifest): boolean {
+  return manifest.selection.mode !== 'overlap';
+}
+
+type ManifestAnalysis = Pick<FrameMetadata,
+  | 'sharpnessScore'
+  | 'sharpnessMetric'
+  | 'blurAnisotropy'
+  | 'blurDirection'
+  | 'highlightClipping'
+  | 'shadowClipping'
+  | 'meanLuminance'
+  | 'noiseLevel'
+  | 'perceptualHash'
+  | 'motionMagnitude'
+>;
+
+// Restored metrics go straight into frame state, so each one is type-checked like the settings are
+const ANALYSIS_CHECKS: {
+  [K in keyof ManifestAnalysis]-?: (value: unknown) => value is ManifestAnalysis[K];
+} = {
+  sharpnessScore: isNumber,
+  sharpnessMetric: isSharpnessMetric,
+  blurAnisotropy: isNumber,
+  blurDirection: isNumber,
+  highlightClipping: isNumber,
+  shadowClipping: isNumber,
+  meanLuminance: isNumber,
+  noiseLevel: isNumber,
+  perceptualHash: (value): value is string => typeof value === 'string',
+  motionMagnitude: isNumber,
+};
+
+/**
+ * The stored analysis of a frame; duplicate groups are left out since they're recomputed from the
+ * hashes. Returns null when the frame has no sharpness score or any metric is malformed, in which
+ * case the frame is analyzed from scratch.
+ */
+export function getManifestAnalysis(entry: ManifestFrame): Partial<FrameMetadata> | null {
+  if (entry.sharpnessScore === undefined) return null;
+
+  const analysis: Partial<ManifestAnalysis> = {};
+  for (const key of Object.keys(ANALYSIS_CHECKS) as (keyof ManifestAnalysis)[]) {
+    const value: unknown = entry[key];
+    if (value === undefined) continue;
+    if (!ANALYSIS_CHECKS[key](value)) return null;
+    Object.assign(analysis, { [key]: value });
+  }
+  return analysis;
+}
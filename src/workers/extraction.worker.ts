@@ -0,0 +1,41 @@
+import { extractWithMediaBunny } from '@/lib/mediaBunnyExtraction';
+import { frameStorage } from '@/lib/frameStorage';
+import type { ExtractionWorkerRequest, ExtractionWorkerResponse } from '@/lib/extractionWorkerClient';
+
+// Runs the MediaBunny decode -> encode -> IndexedDB pipeline off the main thread.
+// CanvasSink yields OffscreenCanvases here, so encoding never touches the DOM.
+// Cancelling terminates the worker, so there is no cancel message to handle.
+
+function post(message: ExtractionWorkerResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<ExtractionWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    const frames = await extractWithMediaBunny(
+      request.videoFile,
+      request.fps,
+      request.format,
+      request.quality,
+      request.timeRange,
+      (current, total) => post({ type: 'progress', current, total }),
+      undefined,
+      request.fallbackDurationSeconds,
+      request.prefix,
+      request.transform,
+      request.firstIndex
+    );
+
+    // The client terminates the worker on done, which would cut off thumbnail generation
+    await frameStorage.whenThumbnailsStored();
+    post({ type: 'done', frames });
+  } catch (error) {
+    post({
+      type: 'error',
+      name: error instanceof Error ? error.name : 'Error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -0,0 +1,16 @@
+import { analyzeFrame } from '@/lib/frameAnalysis';
+import type { SharpnessWorkerRequest, SharpnessWorkerResponse } from '@/lib/sharpnessWorkerPool';
+
+function post(message: SharpnessWorkerResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<SharpnessWorkerRequest>) => {
+  const { id, blob, metric } = event.data;
+
+  try {
+    post({ id, analysis: await analyzeFrame(blob, metric) });
+  } catch (error) {
+    post({ id, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};